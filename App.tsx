@@ -1,82 +1,284 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Difficulty, GameState, CellData, Settings } from './types';
-import { generateSudoku } from './utils/sudokuLogic';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Difficulty, GameMode, Palette, GameState, CellData, Settings, Hint, GameRecord, DailyResult, NoteLayer, Variant, VariantLayout, GridSize } from './types';
+import { requestPuzzle, warmPool, PuzzleRequest } from './utils/puzzleService';
+import { encodePuzzleCode, decodePuzzleCode } from './utils/puzzleCode';
+import { ImportedPuzzle } from './utils/puzzleFormats';
+import PuzzleTransferModal from './components/PuzzleTransferModal';
+import { saveGame, loadGame, deleteGame, listSaves, getActiveSaveSlot, setActiveSaveSlot, dailySlot, SaveSummary } from './utils/gameStorage';
+import { loadStats, recordGame } from './utils/stats';
+import StatsModal from './components/StatsModal';
+import DailyModal from './components/DailyModal';
+import PuzzleEditor from './components/PuzzleEditor';
+import BookletModal from './components/BookletModal';
+import RaceModal from './components/RaceModal';
+import RaceProgress from './components/RaceProgress';
+import { useRace } from './utils/useRace';
+import LeaderboardList from './components/LeaderboardList';
+import { loadLeaderboard, recordScore, scoreGame, Leaderboard } from './utils/scoring';
+import { dailySeed, dailyStreak, dateKey, finishDaily, loadDailyResults, parseDateKey, startDaily } from './utils/daily';
+import ReplayViewer from './components/ReplayViewer';
+import AnalysisModal from './components/AnalysisModal';
+import SettingsModal from './components/SettingsModal';
+import CellMarks, { CELL_COLORS } from './components/CellMarks';
+import ShortcutsModal from './components/ShortcutsModal';
+import { createGame, completedDigits, boardProgress, lossReason, runCommand, GameCommand, GameEvent, MODE_RULES, NewGame } from './utils/gameEngine';
+import { cellLabel, digitLabel, formatTime, ratingLabel } from './utils/format';
+import { findHint, gridFromValues, cellsOfUnit } from './utils/hintEngine';
+import { createTranslator, detectLocale, isLocale, Translator } from './utils/i18n';
+import { I18nContext } from './utils/useTranslation';
+import { CLASSIC_LAYOUT, GRID_SIZES, VARIANT_SIZES, getConstraints } from './utils/variants';
+import { applyTheme, isCustomTheme, themeColors } from './utils/themes';
+import { FeedbackCue, playCue, setAudioSuspended, strongestCue, vibrateCue } from './utils/audioFeedback';
 import { 
-  Undo, Trash2, Lightbulb, Play, Pause, 
-  Moon, Sun, Award, Target, BrainCircuit, Plus, X, AlertTriangle
+  Undo, Redo, Trash2, Lightbulb, Play, Pause, 
+  Moon, Sun, Award, Target, BrainCircuit, Plus, X, AlertTriangle, ChevronRight, Loader2, Copy, Check, ArrowDownUp, BarChart3, History,
+  Settings as SettingsIcon, CheckCheck, Minimize2, Wand2, CalendarDays, Flame, PencilLine, Printer, Swords, Crown, Heart, Hourglass, Zap, Volume2, VolumeX
 } from 'lucide-react';
 
 const INITIAL_SETTINGS: Settings = {
+  // Sem idioma salvo (primeira execução), segue o idioma do navegador
+  language: detectLocale(),
   darkMode: true,
+  theme: Palette.NEON,
+  customThemes: [],
   highlightIdentical: true,
   autoCheckErrors: true,
   smartFocus: true,
-  neuralFeedback: true
+  neuralFeedback: true,
+  keepCandidatesUpdated: false,
+  volume: 0.6,
+  muted: false
 };
 
 const DIFFICULTY_CONFIG = {
-  [Difficulty.EASY]: { color: 'text-green-500', bg: 'bg-green-500/10', border: 'border-green-500/20', hover: 'hover:bg-green-500/20' },
-  [Difficulty.MEDIUM]: { color: 'text-yellow-500', bg: 'bg-yellow-500/10', border: 'border-yellow-500/20', hover: 'hover:bg-yellow-500/20' },
-  [Difficulty.HARD]: { color: 'text-red-500', bg: 'bg-red-500/10', border: 'border-red-500/20', hover: 'hover:bg-red-500/20' },
-  [Difficulty.EXPERT]: { color: 'text-purple-500', bg: 'bg-purple-500/10', border: 'border-purple-500/20', hover: 'hover:bg-purple-500/20' },
+  [Difficulty.EASY]: { color: 'text-easy', bg: 'bg-easy/10', border: 'border-easy/20', hover: 'hover:bg-easy/20' },
+  [Difficulty.MEDIUM]: { color: 'text-medium', bg: 'bg-medium/10', border: 'border-medium/20', hover: 'hover:bg-medium/20' },
+  [Difficulty.HARD]: { color: 'text-hard', bg: 'bg-hard/10', border: 'border-hard/20', hover: 'hover:bg-hard/20' },
+  [Difficulty.EXPERT]: { color: 'text-expert', bg: 'bg-expert/10', border: 'border-expert/20', hover: 'hover:bg-expert/20' },
 };
 
+// Estágios da dica: 1 = região, 2 = técnica, 3 = células e candidatos
+interface ActiveHint {
+  hint: Hint;
+  stage: 1 | 2 | 3;
+}
+
+interface NewGameRequest {
+  difficulty: Difficulty;
+  mode: GameMode;
+  variant: Variant;
+  size: GridSize;
+  seed?: number;
+}
+
+// Linha tracejada da gaiola: recuada nos lados que fazem fronteira com outra gaiola
+const cageOutlineStyle = (layout: VariantLayout, r: number, c: number): React.CSSProperties => {
+  const { size } = layout;
+  const cage = getConstraints(layout).cageOf[r * size + c]!;
+  const open = (nr: number, nc: number) => nr < 0 || nr >= size || nc < 0 || nc >= size || !cage.cells.includes(nr * size + nc);
+  const [top, right, bottom, left] = [open(r - 1, c), open(r, c + 1), open(r + 1, c), open(r, c - 1)];
+  return {
+    top: top ? 3 : 0, right: right ? 3 : 0, bottom: bottom ? 3 : 0, left: left ? 3 : 0,
+    borderTopWidth: top ? 1 : 0, borderRightWidth: right ? 1 : 0, borderBottomWidth: bottom ? 1 : 0, borderLeftWidth: left ? 1 : 0,
+  };
+};
+
+const sortedDigits = (digits: Set<number>) => [...digits].sort((a, b) => a - b).map(digitLabel).join(' ');
+
+// Texto lido pelo leitor de tela para cada célula
+const describeCell = (cell: CellData, r: number, c: number, { t }: Translator) => {
+  const parts = [
+    t('cell.position', { row: r + 1, col: c + 1 }),
+    cell.value ? (cell.fixed ? t('cell.fixed', { digit: digitLabel(cell.value) }) : digitLabel(cell.value)) : t('cell.empty'),
+  ];
+  if (cell.error) parts.push(t('cell.error'));
+  if (cell.notes.size > 0) parts.push(t('cell.candidates', { digits: sortedDigits(cell.notes) }));
+  if (cell.cornerNotes.size > 0) parts.push(t('cell.corners', { digits: sortedDigits(cell.cornerNotes) }));
+  if (cell.color !== null) parts.push(t('cell.color', { color: cell.color + 1 }));
+  return parts.join(', ');
+};
+
+const describeHint = (h: Hint, i18n: Translator) => {
+  const { t } = i18n;
+  if (h.placement) return t('hint.placement', { digit: digitLabel(h.placement.value), cell: cellLabel(i18n, h.placement.row, h.placement.col) });
+  const removed = h.eliminations.map(e => t('hint.elimination', { digit: digitLabel(e.value), cell: cellLabel(i18n, e.row, e.col) })).join(', ');
+  return t('hint.eliminations', { cells: h.cells.map(([r, c]) => cellLabel(i18n, r, c)).join(', '), digits: h.digits.map(digitLabel).join(', '), removed });
+};
+
+const checkMessage = (wrong: number, { t, plural }: Translator) =>
+  wrong === 0 ? t('check.none') : plural('check.wrong', wrong);
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [settings, setSettings] = useState<Settings>(INITIAL_SETTINGS);
-  const [completedNumbers, setCompletedNumbers] = useState<Set<number>>(new Set());
   const [isNewGameModalOpen, setIsNewGameModalOpen] = useState(false);
-  const [showConfirmReset, setShowConfirmReset] = useState<Difficulty | null>(null);
+  const [showConfirmReset, setShowConfirmReset] = useState<NewGameRequest | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState(false);
+  const [codeCopied, setCodeCopied] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [saveSlot, setSaveSlot] = useState(getActiveSaveSlot);
+  const [saves, setSaves] = useState<(SaveSummary | null)[]>([]);
+  const [records, setRecords] = useState<GameRecord[]>(loadStats);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>(loadLeaderboard);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [isDailyOpen, setIsDailyOpen] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isBookletOpen, setIsBookletOpen] = useState(false);
+  const [isRaceOpen, setIsRaceOpen] = useState(false);
+  const [dailyResults, setDailyResults] = useState<DailyResult[]>(loadDailyResults);
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [checkResult, setCheckResult] = useState<number | null>(null);
+  const [pulseCells, setPulseCells] = useState<Set<number>>(new Set());
+  // Seleção múltipla (Shift/Ctrl-clique ou arrasto); vazia quando só a célula principal está selecionada
+  const [multiSelection, setMultiSelection] = useState<Set<number>>(new Set());
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const [activeHint, setActiveHint] = useState<ActiveHint | null>(null);
+  const [generating, setGenerating] = useState<Difficulty | null>(null);
+  // Só importa sem jogo na tela: a primeira geração falhou e não há o que mostrar
+  const [generationFailed, setGenerationFailed] = useState(false);
+  const [newGameMode, setNewGameMode] = useState<GameMode>(GameMode.NORMAL);
+  const [newGameVariant, setNewGameVariant] = useState<Variant>(Variant.CLASSIC);
+  // Segundos ganhos no Blitz, mostrados por um instante ao lado do relógio
+  const [timeBonus, setTimeBonus] = useState<number | null>(null);
+  const [newGameSize, setNewGameSize] = useState<GridSize>(9);
+  const raceSession = useRace();
+  const { race } = raceSession;
+  const i18n = useMemo(() => createTranslator(settings.language), [settings.language]);
+  const { t, plural } = i18n;
+
+  // O jogo atual é o da corrida quando tem a semente entregue pelo relay
+  const isRaceGame = !!race && race.status !== 'lobby' && race.seed !== null && gameState?.seed === race.seed && gameState.layout.variant === Variant.CLASSIC && gameState.layout.size === 9;
+  // Outro jogador venceu (ou todos perderam) enquanto este tabuleiro ainda estava em jogo
+  const isRaceOver = isRaceGame && race.status === 'finished' && !gameState.isGameOver;
   
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Qualquer modal aberto ou geração em andamento congela o tabuleiro e o relógio
+  const isBlocked = isNewGameModalOpen || !!showConfirmReset || !!generating || isTransferModalOpen || isStatsOpen || isDailyOpen || isEditorOpen || isBookletOpen || isRaceOpen || isSettingsOpen || isShortcutsOpen || isRaceOver;
 
-  const serializeBoard = (board: CellData[][]) => {
-    return JSON.stringify(board, (key, value) => 
-      value instanceof Set ? Array.from(value) : value
-    );
-  };
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const generationRef = useRef<PuzzleRequest | null>(null);
+  // Estado mais recente para o motor, mesmo entre dois comandos antes do próximo render
+  const gameStateRef = useRef<GameState | null>(null);
+  gameStateRef.current = gameState;
+  const dispatchRef = useRef<(command: GameCommand) => void>(() => {});
+  const draggingRef = useRef(false);
+  const cellRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Só a navegação pelo teclado move o foco junto com a seleção
+  const focusSelectionRef = useRef(false);
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  // Rodada da corrida cujo jogo já foi aberto
+  const raceRoundRef = useRef<number | null>(null);
 
-  const startNewGame = useCallback((difficulty: Difficulty = Difficulty.EASY, zen: boolean = false) => {
-    const { puzzle, solution } = generateSudoku(difficulty);
-    const initialBoard: CellData[][] = puzzle.map((row, r) => 
-      row.map((val, c) => ({
-        value: val,
-        fixed: val !== null,
-        notes: new Set<number>(),
-        error: false
-      }))
-    );
-
-    setGameState({
-      board: initialBoard,
-      solution,
-      difficulty,
-      time: 0,
-      errors: 0,
-      maxErrors: zen ? 999 : 3,
-      isPaused: false,
-      selectedCell: null,
-      history: [],
-      zenMode: zen,
-      focusMode: false,
-      noteMode: false,
-      isGameOver: false,
-      isWon: false
-    });
-    setCompletedNumbers(new Set());
+  // `carry` leva as vidas e a contagem de um jogo de Sobrevivência para o seguinte
+  const startNewGame = useCallback(async (difficulty: Difficulty = Difficulty.EASY, mode: GameMode = GameMode.NORMAL, seed?: number, variant: Variant = Variant.CLASSIC, size: GridSize = 9, daily: string | null = null, carry: Pick<NewGame, 'errors' | 'chain'> = {}) => {
+    generationRef.current?.cancel();
+    const request = requestPuzzle(difficulty, seed, variant, size);
+    generationRef.current = request;
+    setGenerating(difficulty);
+    setGenerationFailed(false);
     setIsNewGameModalOpen(false);
     setShowConfirmReset(null);
+
+    const generated = await request.promise;
+    // Uma geração mais recente substituiu esta
+    if (generationRef.current !== request) return;
+    generationRef.current = null;
+    setGenerating(null);
+    if (!generated) {
+      setGenerationFailed(true);
+      return;
+    }
+
+    const { puzzle, solution, rating, layout } = generated;
+    const game = createGame({ puzzle, solution, difficulty, layout, rating, seed: generated.seed, mode, daily, ...carry });
+    setGameState(game);
+    if (daily) setDailyResults(startDaily(daily, difficulty, game.id));
+    setCodeInput('');
+    setCodeError(false);
   }, []);
 
+  const cancelGeneration = () => generationRef.current?.cancel();
+
+  // Desafio diário: clássico 9x9 com a semente tirada da data. Depois de começado só pode
+  // ser retomado do próprio slot, nunca gerado de novo
+  const playDaily = (difficulty: Difficulty) => {
+    setIsDailyOpen(false);
+    const today = dateKey();
+    const result = dailyResults.find(r => r.date === today && r.difficulty === difficulty);
+    const saved = loadGame(dailySlot(difficulty));
+    if (result) {
+      if (saved?.id === result.gameId) setGameState(saved);
+      return;
+    }
+    startNewGame(difficulty, GameMode.NORMAL, dailySeed(today, difficulty), Variant.CLASSIC, 9, today);
+  };
+
+  const loadImportedPuzzle = (imported: ImportedPuzzle) => {
+    generationRef.current?.cancel();
+    setGameState(createGame({
+      ...imported,
+      layout: CLASSIC_LAYOUT,
+      seed: null,
+      // Importados e grades do editor não entram em corrida contra o relógio nem em sequência de sobrevivência
+      mode: GameMode.NORMAL
+    }));
+    setIsTransferModalOpen(false);
+  };
+
   useEffect(() => {
-    startNewGame();
-    const saved = localStorage.getItem('sudoku-settings');
-    if (saved) setSettings(JSON.parse(saved));
+    // ?puzzle=CODE abre exatamente o jogo compartilhado
+    const shared = decodePuzzleCode(new URLSearchParams(window.location.search).get('puzzle') ?? '');
+    const saved = shared ? null : loadGame(getActiveSaveSlot());
+    if (saved) {
+      setGameState(saved);
+      warmPool();
+    } else {
+      startNewGame(shared?.difficulty, GameMode.NORMAL, shared?.seed, shared?.variant, shared?.size).then(warmPool);
+    }
+    const savedSettings = localStorage.getItem('sudoku-settings');
+    // Configurações novas ficam com o valor padrão em dados salvos por versões anteriores
+    if (savedSettings) {
+      const merged: Settings = { ...INITIAL_SETTINGS, ...JSON.parse(savedSettings) };
+      merged.customThemes = Array.isArray(merged.customThemes) ? merged.customThemes.filter(isCustomTheme) : [];
+      setSettings(isLocale(merged.language) ? merged : { ...merged, language: INITIAL_SETTINGS.language });
+    }
   }, [startNewGame]);
 
+  // Cada largada do relay abre o mesmo jogo para todos. Depois de reconectar (ou recarregar
+  // a página), o jogo da corrida que já está no tabuleiro continua de onde parou
+  useEffect(() => {
+    if (!race || race.status !== 'running' || race.seed === null || raceRoundRef.current === race.round) return;
+    raceRoundRef.current = race.round;
+    setIsRaceOpen(false);
+    if (gameStateRef.current?.seed !== race.seed) startNewGame(race.difficulty, GameMode.NORMAL, race.seed);
+  }, [race?.round, race?.status]);
+
+  // Só o progresso vai para os adversários, nunca os dígitos
+  useEffect(() => {
+    if (!isRaceGame || race.status !== 'running') return;
+    raceSession.report({
+      round: race.round,
+      progress: boardProgress(gameState.board, gameState.solution),
+      errors: gameState.errors,
+      maxErrors: gameState.maxErrors,
+      finishTime: gameState.isWon ? gameState.time : null,
+      out: gameState.isGameOver && !gameState.isWon
+    });
+  }, [isRaceGame, race?.round, race?.status, gameState?.board, gameState?.errors, gameState?.isGameOver]);
+
+  // Salvamento automático no slot ativo
+  useEffect(() => {
+    if (gameState) saveGame(gameState.daily ? dailySlot(gameState.difficulty) : saveSlot, gameState);
+  }, [gameState, saveSlot]);
+
   useEffect(() => {
     localStorage.setItem('sudoku-settings', JSON.stringify(settings));
+    document.documentElement.lang = settings.language;
+    applyTheme(themeColors(settings));
     if (settings.darkMode) {
       document.body.classList.add('bg-slate-900', 'text-white');
       document.body.classList.remove('bg-gray-50', 'text-slate-900');
@@ -87,34 +289,155 @@ const App: React.FC = () => {
   }, [settings]);
 
   useEffect(() => {
-    if (gameState && !gameState.isPaused && !gameState.isGameOver && !gameState.isWon && !isNewGameModalOpen && !showConfirmReset) {
+    if (gameState && !gameState.isPaused && !gameState.isGameOver && !gameState.isWon && !isBlocked) {
       timerRef.current = setInterval(() => {
-        setGameState(prev => prev ? { ...prev, time: prev.time + 1 } : null);
+        dispatchRef.current({ type: 'tick' });
       }, 1000);
     } else {
       if (timerRef.current) clearInterval(timerRef.current);
     }
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [gameState?.isPaused, gameState?.isGameOver, gameState?.isWon, isNewGameModalOpen, showConfirmReset]);
+  }, [gameState?.isPaused, gameState?.isGameOver, gameState?.isWon, isBlocked]);
+
+  useEffect(() => setActiveHint(null), [gameState?.board]);
+
+  useEffect(() => setMultiSelection(new Set()), [gameState?.id]);
 
   useEffect(() => {
-    if (!gameState) return;
-    const counts = new Array(10).fill(0);
-    gameState.board.forEach(row => row.forEach(cell => {
-      if (cell.value) counts[cell.value]++;
-    }));
-    const completed = new Set<number>();
-    counts.forEach((count, num) => { if (count === 9) completed.add(num); });
-    setCompletedNumbers(completed);
-
-    const isComplete = gameState.board.every((row, r) => 
-      row.every((cell, c) => cell.value === gameState.solution[r][c])
-    );
-    if (isComplete && !gameState.isWon) {
-      setGameState(prev => prev ? { ...prev, isWon: true, isGameOver: true } : null);
-    }
+    if (!focusSelectionRef.current || !gameState?.selectedCell) return;
+    focusSelectionRef.current = false;
+    const [r, c] = gameState.selectedCell;
+    cellRefs.current[r * gameState.layout.size + c]?.focus();
+  }, [gameState?.selectedCell]);
+
+  // Anúncios para leitores de tela: a célula alterada, pausa e fim de jogo
+  useEffect(() => {
+    if (!gameState?.selectedCell) return;
+    const [r, c] = gameState.selectedCell;
+    setAnnouncement(describeCell(gameState.board[r][c], r, c, i18n));
   }, [gameState?.board]);
 
+  useEffect(() => {
+    if (!activeHint) return;
+    const { hint: h, stage } = activeHint;
+    setAnnouncement(stage === 1 ? t('announce.hintRegion') : stage === 2 ? t('announce.hintTechnique', { technique: t(`technique.${h.technique}`) }) : describeHint(h, i18n));
+  }, [activeHint]);
+
+  useEffect(() => {
+    if (gameState && !gameState.isGameOver) setAnnouncement(gameState.isPaused ? t('announce.paused') : t('announce.running'));
+  }, [gameState?.isPaused]);
+
+  useEffect(() => {
+    if (!gameState?.isGameOver) return;
+    if (gameState.isWon) setAnnouncement(t('announce.won', { time: formatTime(gameState.time) }));
+    else setAnnouncement(lossReason(gameState) === 'timeout' ? t('announce.timeout') : plural('announce.lost', gameState.errors));
+  }, [gameState?.isGameOver, gameState?.isWon]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const stopDragging = () => { draggingRef.current = false; };
+    window.addEventListener('pointerup', stopDragging);
+    return () => window.removeEventListener('pointerup', stopDragging);
+  }, []);
+
+  useEffect(() => {
+    if (pulseCells.size === 0) return;
+    const timer = setTimeout(() => setPulseCells(new Set()), 600);
+    return () => clearTimeout(timer);
+  }, [pulseCells]);
+
+  useEffect(() => {
+    if (timeBonus === null) return;
+    const timer = setTimeout(() => setTimeBonus(null), 1500);
+    return () => clearTimeout(timer);
+  }, [timeBonus]);
+
+  // Pausar silencia o som e a vibração até o jogo voltar
+  useEffect(() => {
+    setAudioSuspended(!!gameState?.isPaused);
+  }, [gameState?.isPaused]);
+
+  useEffect(() => {
+    if (checkResult === null) return;
+    const timer = setTimeout(() => setCheckResult(null), 2500);
+    return () => clearTimeout(timer);
+  }, [checkResult]);
+
+  // Toda jogada passa pelo motor; a tela só reage aos eventos que ele devolve
+  const dispatch = (command: GameCommand) => {
+    const current = gameStateRef.current;
+    if (!current) return;
+    const { state, events } = runCommand(current, command, { autoCheckErrors: settings.autoCheckErrors, keepCandidatesUpdated: settings.keepCandidatesUpdated });
+    if (state !== current) {
+      gameStateRef.current = state;
+      setGameState(state);
+    }
+    if (current.timeLimit !== null && state.timeLimit !== null && state.timeLimit > current.timeLimit) setTimeBonus(state.timeLimit - current.timeLimit);
+    handleGameEvents(state, events);
+  };
+  dispatchRef.current = dispatch;
+
+  const handleGameEvents = (state: GameState, events: GameEvent[]) => {
+    const pulse = events.flatMap(event => (event.type === 'unitCompleted' ? event.cells : []));
+    if (pulse.length > 0 && settings.neuralFeedback) setPulseCells(new Set(pulse));
+    if (settings.neuralFeedback) {
+      const cue = strongestCue(events.flatMap((event): FeedbackCue[] => {
+        switch (event.type) {
+          case 'placed': return ['correct'];
+          case 'error': return ['error'];
+          case 'noted': return ['note'];
+          case 'unitCompleted': return ['unit'];
+          case 'digitCompleted': return ['digit'];
+          case 'won': case 'lost': return [event.type];
+          default: return [];
+        }
+      }));
+      if (cue) {
+        if (!settings.muted) playCue(cue, settings.volume);
+        vibrateCue(cue);
+      }
+    }
+    events.forEach(event => {
+      switch (event.type) {
+        case 'checked':
+          setCheckResult(event.wrong);
+          setAnnouncement(checkMessage(event.wrong, i18n));
+          break;
+        // Registra a partida nas estatísticas assim que termina (vitória ou derrota)
+        case 'won':
+        case 'lost':
+          setRecords(recordGame({
+            id: state.id,
+            difficulty: state.difficulty,
+            mode: state.mode,
+            time: state.time,
+            errors: state.errors,
+            hintsUsed: state.hintsUsed,
+            won: event.type === 'won',
+            date: new Date().toISOString()
+          }));
+          if (state.daily) setDailyResults(finishDaily(state.id, event.type === 'won', state.time));
+          // O ranking compara só partidas nas regras normais (sem relógio nem vidas compartilhadas)
+          if (event.type === 'won' && state.mode === GameMode.NORMAL) {
+            setLeaderboard(recordScore(state.difficulty, {
+              gameId: state.id,
+              score: scoreGame(state).total,
+              time: state.time,
+              errors: state.errors,
+              hintsUsed: state.hintsUsed,
+              date: new Date().toISOString()
+            }));
+          }
+          break;
+      }
+    });
+  };
+
   const hasProgress = () => {
     if (!gameState) return false;
     // Se o jogo acabou, não consideramos como "progresso a proteger" para facilitar o reinício
@@ -122,303 +445,964 @@ const App: React.FC = () => {
     return gameState.board.some(row => row.some(cell => !cell.fixed && (cell.value !== null || cell.notes.size > 0)));
   };
 
-  const handleDifficultyClick = (d: Difficulty) => {
+  const requestNewGame = (request: NewGameRequest) => {
     if (hasProgress()) {
-      setShowConfirmReset(d);
+      setShowConfirmReset(request);
     } else {
-      startNewGame(d, gameState?.zenMode);
+      startNewGame(request.difficulty, request.mode, request.seed, request.variant, request.size);
     }
   };
 
-  const handleCellSelect = (r: number, c: number) => {
-    if (gameState?.isPaused || gameState?.isGameOver || isNewGameModalOpen || showConfirmReset) return;
-    setGameState(prev => prev ? { ...prev, selectedCell: [r, c] } : null);
+  const openNewGameModal = () => {
+    setSaves(listSaves());
+    if (gameState) {
+      setNewGameMode(gameState.mode);
+      setNewGameVariant(gameState.layout.variant);
+      setNewGameSize(gameState.layout.size);
+    }
+    setIsNewGameModalOpen(true);
   };
 
-  const handleInput = useCallback((num: number | null) => {
-    if (!gameState || !gameState.selectedCell || gameState.isPaused || gameState.isGameOver || isNewGameModalOpen) return;
-    const [r, c] = gameState.selectedCell;
-    const cell = gameState.board[r][c];
-    if (cell.fixed) return;
-
-    const historySnapshot = serializeBoard(gameState.board);
-
-    setGameState(prev => {
-      if (!prev) return null;
-      const newBoard = prev.board.map(row => row.map(cell => ({ ...cell, notes: new Set(cell.notes) })));
-      
-      if (prev.noteMode && num !== null) {
-        const notes = newBoard[r][c].notes;
-        if (notes.has(num)) notes.delete(num);
-        else notes.add(num);
-        newBoard[r][c].value = null;
-      } else {
-        const isError = num !== null && num !== prev.solution[r][c];
-        newBoard[r][c].value = num;
-        newBoard[r][c].error = isError;
-        newBoard[r][c].notes = new Set();
-        
-        if (num !== null && !isError) {
-          const startR = r - (r % 3), startC = c - (c % 3);
-          for (let i = 0; i < 9; i++) {
-            newBoard[r][i].notes.delete(num);
-            newBoard[i][c].notes.delete(num);
-            newBoard[startR + Math.floor(i/3)][startC + (i%3)].notes.delete(num);
-          }
-        }
-      }
+  const switchSlot = (slot: number) => {
+    generationRef.current?.cancel();
+    setActiveSaveSlot(slot);
+    setSaveSlot(slot);
+    const saved = loadGame(slot);
+    if (saved) {
+      setGameState(saved);
+      setIsNewGameModalOpen(false);
+    } else {
+      // Slot vazio: começa um jogo novo nele, sem sobrescrever o slot anterior
+      const difficulty = gameState?.difficulty, mode = gameState?.mode, variant = gameState?.layout.variant, size = gameState?.layout.size;
+      setGameState(null);
+      startNewGame(difficulty, mode, undefined, variant, size);
+    }
+  };
+
+  const removeSave = (slot: number) => {
+    deleteGame(slot);
+    setSaves(listSaves());
+  };
+
+  const handleDifficultyClick = (d: Difficulty) => requestNewGame({ difficulty: d, mode: newGameMode, variant: newGameVariant, size: newGameSize });
+
+  // Sobrevivência: o próximo jogo herda os erros (vidas) e soma um à sequência
+  const nextSurvivalPuzzle = () => {
+    if (!gameState) return;
+    startNewGame(gameState.difficulty, GameMode.SURVIVAL, undefined, gameState.layout.variant, gameState.layout.size, null, { errors: gameState.errors, chain: gameState.chain + 1 });
+  };
+
+  // Nem toda variante existe em todos os tamanhos: volta para 9x9 quando o atual não serve
+  const selectNewGameVariant = (v: Variant) => {
+    setNewGameVariant(v);
+    if (!VARIANT_SIZES[v].includes(newGameSize)) setNewGameSize(9);
+  };
 
-      const newErrors = (!prev.noteMode && num !== null && num !== prev.solution[r][c]) ? prev.errors + 1 : prev.errors;
-      const isGameOver = newErrors >= prev.maxErrors;
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const decoded = decodePuzzleCode(codeInput);
+    if (!decoded) {
+      setCodeError(true);
+      return;
+    }
+    requestNewGame({ ...decoded, mode: newGameMode });
+  };
 
-      return {
-        ...prev,
-        board: newBoard,
-        errors: newErrors,
-        isGameOver: isGameOver,
-        history: [historySnapshot, ...prev.history].slice(0, 30)
-      };
+  const copyPuzzleCode = () => {
+    if (!gameState || gameState.seed === null) return;
+    navigator.clipboard?.writeText(encodePuzzleCode(gameState.difficulty, gameState.seed, gameState.layout.variant, gameState.layout.size)).then(() => {
+      setCodeCopied(true);
+      setTimeout(() => setCodeCopied(false), 1500);
     });
-  }, [gameState, isNewGameModalOpen]);
-
-  const undo = () => {
-    setGameState(prev => {
-      if (!prev || prev.history.length === 0) return prev;
-      try {
-        const lastBoardData = JSON.parse(prev.history[0]);
-        const restoredBoard = lastBoardData.map((row: any) => row.map((cell: any) => ({
-          ...cell,
-          notes: new Set(cell.notes)
-        })));
-        return { ...prev, board: restoredBoard, history: prev.history.slice(1) };
-      } catch (err) {
-        return prev;
+  };
+
+  // Seleção inicial da seleção múltipla: a célula principal, se houver
+  const selectionBase = (prev: Set<number>) => {
+    if (prev.size > 0 || !gameState?.selectedCell) return new Set(prev);
+    const [sr, sc] = gameState.selectedCell;
+    return new Set([sr * gameState.layout.size + sc]);
+  };
+
+  const handleCellPointerDown = (e: React.PointerEvent<HTMLDivElement>, r: number, c: number) => {
+    if (!gameState || gameState.isPaused || gameState.isGameOver || isBlocked) return;
+    // Sem a captura do ponteiro, o arrasto (inclusive no toque) dispara pointerenter nas outras células
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+    draggingRef.current = true;
+    const i = r * gameState.layout.size + c;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setMultiSelection(prev => {
+        const next = selectionBase(prev);
+        if (next.has(i) && next.size > 1) next.delete(i);
+        else next.add(i);
+        return next;
+      });
+    } else {
+      setMultiSelection(new Set());
+    }
+    dispatch({ type: 'select', cell: [r, c] });
+  };
+
+  // Foco vindo do Tab: seleciona a célula sem desfazer a seleção múltipla
+  const handleCellFocus = (r: number, c: number) => {
+    if (!gameState || gameState.isPaused || gameState.isGameOver || isBlocked) return;
+    if (gameState.selectedCell?.[0] !== r || gameState.selectedCell?.[1] !== c) dispatch({ type: 'select', cell: [r, c] });
+  };
+
+  const handleCellPointerEnter = (r: number, c: number) => {
+    if (!draggingRef.current || !gameState) return;
+    setMultiSelection(prev => selectionBase(prev).add(r * gameState.layout.size + c));
+  };
+
+  const selectedCells = (): [number, number][] => {
+    if (!gameState?.selectedCell) return [];
+    if (multiSelection.size === 0) return [gameState.selectedCell];
+    const size = gameState.layout.size;
+    return [...multiSelection].sort((a, b) => a - b).map(i => [Math.floor(i / size), i % size]);
+  };
+
+  // Com várias células selecionadas, os dígitos sempre viram notas em todas elas
+  const handleInput = (num: number | null, layer?: NoteLayer) => {
+    if (!gameState || !gameState.selectedCell || isBlocked) return;
+    const cells = selectedCells().filter(([r, c]) => !gameState.board[r][c].fixed);
+    if (cells.length === 0) return;
+    if (num === null) dispatch({ type: 'erase', cells });
+    else if (gameState.noteMode || layer || cells.length > 1) dispatch({ type: 'note', cells, value: num, layer: layer ?? gameState.noteLayer });
+    else dispatch({ type: 'place', row: cells[0][0], col: cells[0][1], value: num });
+  };
+
+  const fillCandidates = () => dispatch({ type: 'candidates' });
+
+  const colorSelection = (color: number | null) => dispatch({ type: 'color', cells: selectedCells(), color });
+
+  // Com a verificação automática desligada, revela de uma vez as jogadas erradas ainda ocultas
+  const checkBoard = () => dispatch({ type: 'check' });
+
+  const togglePause = () => dispatch({ type: 'pause' });
+
+  // Seleção pelo teclado; com Shift, a célula entra na seleção múltipla
+  const moveSelection = (r: number, c: number, extend: boolean) => {
+    if (!gameState || gameState.isPaused || gameState.isGameOver) return;
+    if (extend) setMultiSelection(prev => selectionBase(prev).add(r * gameState.layout.size + c));
+    else setMultiSelection(new Set());
+    focusSelectionRef.current = true;
+    dispatch({ type: 'select', cell: [r, c] });
+  };
+
+  // Destino de uma tecla de navegação, ou null se a tecla não navega
+  const navigationTarget = (e: KeyboardEvent): [number, number] | null => {
+    if (!gameState) return null;
+    const { size, regions } = gameState.layout;
+    const wrap = (n: number) => (n + size) % size;
+    // WASD fica desligado em 16x16, onde A e D são dígitos
+    const key = size === 16 ? e.key : ({ w: 'ArrowUp', a: 'ArrowLeft', s: 'ArrowDown', d: 'ArrowRight' } as Record<string, string>)[e.key.toLowerCase()] ?? e.key;
+    // Sem seleção, a primeira seta começa pelo canto superior esquerdo
+    if (!gameState.selectedCell) return key.startsWith('Arrow') ? [0, 0] : null;
+    const [r, c] = gameState.selectedCell;
+    const current = r * size + c;
+    const toCell = (i: number): [number, number] => [Math.floor(i / size), i % size];
+    const scan = (step: 1 | -1, accept: (i: number) => boolean) => {
+      for (let k = 1; k < size * size; k++) {
+        const i = (current + step * k + size * size) % (size * size);
+        if (accept(i)) return toCell(i);
       }
-    });
+      return null;
+    };
+    const isEmpty = (i: number) => gameState.board[Math.floor(i / size)][i % size].value === null;
+    switch (key) {
+      case 'ArrowUp': return [wrap(r - 1), c];
+      case 'ArrowDown': return [wrap(r + 1), c];
+      case 'ArrowLeft': return [r, wrap(c - 1)];
+      case 'ArrowRight': return [r, wrap(c + 1)];
+      case 'Home': return [r, 0];
+      case 'End': return [r, size - 1];
+      case ']': return scan(1, isEmpty);
+      case '[': return scan(-1, isEmpty);
+      case 'PageDown':
+      case 'PageUp': {
+        // Primeira célula vazia do bloco seguinte (ou anterior); a primeira célula se ele estiver cheio
+        const box = wrap(regions[current] + (key === 'PageDown' ? 1 : -1));
+        const cells = regions.flatMap((region, i) => (region === box ? [i] : []));
+        return toCell(cells.find(isEmpty) ?? cells[0]);
+      }
+      default: return null;
+    }
   };
 
+  const undo = () => dispatch({ type: 'undo' });
+
+  const redo = () => dispatch({ type: 'redo' });
+
+  const hintsLeft = gameState ? gameState.maxHints - gameState.hintsUsed : 0;
+
+  // A dica é cobrada ao mostrar a resposta (estágio 3); aplicá-la depois não custa nada
   const hint = () => {
-    if (!gameState || !gameState.selectedCell || gameState.isGameOver) return;
-    const [r, c] = gameState.selectedCell;
-    handleInput(gameState.solution[r][c]);
+    if (!gameState || gameState.isGameOver || gameState.isPaused) return;
+    if (activeHint?.stage === 3) {
+      dispatch({ type: 'hint', hint: activeHint.hint });
+      return;
+    }
+    if (hintsLeft <= 0) {
+      setActiveHint(null);
+      setAnnouncement(t('hint.budgetUsed'));
+      return;
+    }
+    if (activeHint) {
+      if (activeHint.stage === 2) dispatch({ type: 'revealHint' });
+      setActiveHint({ ...activeHint, stage: (activeHint.stage + 1) as ActiveHint['stage'] });
+      return;
+    }
+    const next = findHint(gameState.board, gameState.solution, gameState.layout);
+    if (next) {
+      setActiveHint({ hint: next, stage: 1 });
+    } else {
+      // Nenhuma técnica conhecida se aplica: revela a célula selecionada
+      dispatch({ type: 'hint', hint: null });
+    }
   };
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key >= '1' && e.key <= '9') handleInput(parseInt(e.key));
-      if (e.key === 'Backspace' || e.key === 'Delete' || e.key === '0') handleInput(null);
-      if (e.key === 'n' || e.key === 'N') setGameState(prev => prev ? { ...prev, noteMode: !prev.noteMode } : null);
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') undo();
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleInput]);
+  const completedNumbers = useMemo(() => (gameState ? completedDigits(gameState.board) : new Set<number>()), [gameState?.board]);
 
-  if (!gameState) return <div className="h-screen flex items-center justify-center">Carregando...</div>;
+  // Recriado a cada render, para que os atalhos sempre vejam o estado atual
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+    if (isShortcutsOpen) {
+      if (e.key === 'Escape' || e.key === '?') setIsShortcutsOpen(false);
+      return;
+    }
+    if (isBlocked || !gameState) return;
+    if (e.key === '?') {
+      setIsShortcutsOpen(true);
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      if (e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      }
+      if (e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      }
+      return;
+    }
+
+    const target = e.altKey ? null : navigationTarget(e);
+    if (target) {
+      e.preventDefault();
+      moveSelection(target[0], target[1], e.shiftKey);
+      return;
+    }
+
+    // Em 16x16 os dígitos 10 a 16 são as letras A a G. Shift + dígito anota no canto;
+    // o dígito vem do código da tecla, já que Shift muda o caractere
+    const size = gameState.layout.size;
+    const digitKey = /^(?:Digit|Numpad)([1-9])$/.exec(e.code)?.[1];
+    const digit = digitKey ? Number(digitKey) : size === 16 && /^[a-g]$/i.test(e.key) ? e.key.toLowerCase().charCodeAt(0) - 87 : null;
+    if (digit !== null && digit <= size) {
+      handleInput(digit, e.shiftKey ? 'corner' : undefined);
+      return;
+    }
+    switch (e.key) {
+      case 'Escape': setMultiSelection(new Set()); break;
+      case 'Backspace': case 'Delete': case '0': handleInput(null); break;
+      case 'n': case 'N': setGameState(prev => prev ? { ...prev, noteMode: !prev.noteMode } : null); break;
+      case 'h': case 'H': hint(); break;
+      case 'v': case 'V': if (!settings.autoCheckErrors) checkBoard(); break;
+      case 'p': case 'P': togglePause(); break;
+      case 'm': case 'M': openNewGameModal(); break;
+      case 'u': case 'U': setSettings(s => ({ ...s, muted: !s.muted })); break;
+    }
+  };
 
+  if (!gameState) return (
+    <div className="h-screen flex flex-col items-center justify-center gap-4">
+      {generationFailed ? (
+        <>
+          <AlertTriangle size={40} className="text-error-500" />
+          <p className="text-xs uppercase font-black tracking-widest text-error-500">{t('app.loadFailed')}</p>
+          <button type="button" onClick={() => startNewGame()} className="px-6 py-2 rounded-xl bg-accent-500 text-white font-bold transition active:scale-95">
+            {t('app.retry')}
+          </button>
+        </>
+      ) : (
+        <>
+          <Loader2 size={40} className="text-accent-500 animate-spin" />
+          <p className="text-xs uppercase font-black tracking-widest text-accent-500">{t('app.loading')}</p>
+        </>
+      )}
+    </div>
+  );
+
+  const { layout } = gameState;
+  const { size } = layout;
+  const constraints = getConstraints(layout);
+  const digits = Array.from({ length: size }, (_, i) => i + 1);
+
+  // Células que não podem repetir o dígito da selecionada, incluindo as regras da variante
   const isRelated = (r: number, c: number) => {
     if (!gameState.selectedCell) return false;
     const [sr, sc] = gameState.selectedCell;
-    const srBox = sr - (sr % 3), scBox = sc - (sc % 3);
-    const rBox = r - (r % 3), cBox = c - (c % 3);
-    return r === sr || c === sc || (srBox === rBox && scBox === cBox);
+    return constraints.peerSets[sr * size + sc].has(r * size + c);
   };
 
+  // Foco inteligente: com um dígito selecionado, só ficam acesas as células onde ele ainda cabe
+  const focusDigit = settings.smartFocus && gameState.selectedCell ? gameState.board[gameState.selectedCell[0]][gameState.selectedCell[1]].value : null;
+  const focusCells = new Set<number>();
+  if (focusDigit !== null) {
+    const grid = gridFromValues(gameState.board.map(row => row.map(cell => (cell.error ? null : cell.value))), layout);
+    grid.candidates.forEach((mask, i) => { if (mask & (1 << focusDigit) || grid.values[i] === focusDigit) focusCells.add(i); });
+  }
+
   const isIdentical = (val: number | null) => {
     if (!gameState.selectedCell || val === null) return false;
     const [sr, sc] = gameState.selectedCell;
     return gameState.board[sr][sc].value === val;
   };
 
-  const progress = Math.floor((gameState.board.flat().filter(c => c.value && !c.error).length / 81) * 100);
+  const hintRegion = new Set<string>();
+  const hintCells = new Set<string>();
+  const hintEliminations = new Map<string, Set<number>>();
+  if (activeHint) {
+    activeHint.hint.units.forEach(u => cellsOfUnit(u, layout).forEach(([r, c]) => hintRegion.add(`${r}-${c}`)));
+    if (activeHint.stage === 3) {
+      activeHint.hint.cells.forEach(([r, c]) => hintCells.add(`${r}-${c}`));
+      activeHint.hint.eliminations.forEach(({ row, col, value }) => {
+        const key = `${row}-${col}`;
+        if (!hintEliminations.has(key)) hintEliminations.set(key, new Set());
+        hintEliminations.get(key)!.add(value);
+      });
+    }
+  }
+
+  const progress = boardProgress(gameState.board);
+  const score = gameState.isWon ? scoreGame(gameState) : null;
+  const timeLeft = gameState.timeLimit !== null ? Math.max(0, gameState.timeLimit - gameState.time) : null;
+  const loss = lossReason(gameState);
+
+  const raceWinner = race?.players.find(p => p.id === race.winner);
+  const raceResult = !raceWinner
+    ? t('race.noWinner')
+    : raceWinner.id === raceSession.playerId
+      ? t('race.youWon')
+      : raceWinner.finishTime !== null ? t('race.wonIn', { name: raceWinner.name, time: formatTime(raceWinner.finishTime) }) : t('race.wonBy', { name: raceWinner.name });
 
   return (
-    <div className={`min-h-screen flex flex-col items-center px-4 py-8 transition-colors duration-300 ${settings.darkMode ? 'dark bg-slate-900 text-white' : 'bg-gray-50 text-slate-900'}`}>
-      
-      {/* Modal: Novo Jogo */}
-      {isNewGameModalOpen && (
-        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
-          <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
-            <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
-              <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
-                <Plus className="text-cyan-500" /> Novo Jogo
-              </h2>
-              <button type="button" onClick={() => setIsNewGameModalOpen(false)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
-                <X size={20} className="text-slate-500" />
-              </button>
-            </div>
-            <div className="p-6 space-y-3">
-              {Object.values(Difficulty).map(d => {
-                const config = DIFFICULTY_CONFIG[d];
-                return (
-                  <button key={d} type="button" onClick={() => handleDifficultyClick(d)} className={`w-full p-4 rounded-2xl border ${config.border} ${config.bg} ${config.hover} flex justify-between items-center transition-all group active:scale-95`}>
-                    <span className={`font-bold ${config.color}`}>{d}</span>
-                    <Plus size={16} className={config.color} />
-                  </button>
-                );
-              })}
+    <I18nContext.Provider value={i18n}>
+      <div className={`min-h-screen flex flex-col items-center px-4 py-8 transition-colors duration-300 ${settings.darkMode ? 'dark bg-slate-900 text-white' : 'bg-gray-50 text-slate-900'}`}>
+        
+        {/* Modal: Novo Jogo */}
+        {isNewGameModalOpen && (
+          <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+              <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+                <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+                  <Plus className="text-accent-500" /> {t('newGame.title')}
+                </h2>
+                <button type="button" onClick={() => setIsNewGameModalOpen(false)} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+                  <X size={20} className="text-slate-500" />
+                </button>
+              </div>
+              <div className="p-6 space-y-3">
+                <div>
+                  <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('newGame.mode')}</p>
+                  <div className="grid grid-cols-5 gap-2">
+                    {Object.values(GameMode).map(m => (
+                      <button key={m} type="button" onClick={() => setNewGameMode(m)} className={`py-2 rounded-xl text-[10px] font-bold transition active:scale-95 ${newGameMode === m ? 'bg-pink-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                        {t(`mode.${m}`)}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{t(`mode.${newGameMode}.description`, { seconds: MODE_RULES[GameMode.BLITZ].unitBonus })}</p>
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('newGame.variant')}</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {Object.values(Variant).map(v => (
+                      <button key={v} type="button" onClick={() => selectNewGameVariant(v)} title={t(`variant.${v}.description`)} className={`py-2 rounded-xl text-xs font-bold transition active:scale-95 ${newGameVariant === v ? 'bg-accent-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                        {t(`variant.${v}`)}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{t(`variant.${newGameVariant}.description`)}</p>
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('newGame.size')}</p>
+                  <div className="grid grid-cols-4 gap-2">
+                    {GRID_SIZES.map(s => (
+                      <button key={s} type="button" onClick={() => setNewGameSize(s)} disabled={!VARIANT_SIZES[newGameVariant].includes(s)} className={`py-2 rounded-xl text-xs font-bold transition active:scale-95 disabled:opacity-30 ${newGameSize === s ? 'bg-accent-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                        {s}x{s}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {Object.values(Difficulty).map(d => {
+                  const config = DIFFICULTY_CONFIG[d];
+                  return (
+                    <button key={d} type="button" onClick={() => handleDifficultyClick(d)} className={`w-full p-4 rounded-2xl border ${config.border} ${config.bg} ${config.hover} flex justify-between items-center transition-all group active:scale-95`}>
+                      <span className={`font-bold ${config.color}`}>{t(`difficulty.${d}`)}</span>
+                      <Plus size={16} className={config.color} />
+                    </button>
+                  );
+                })}
+                <button type="button" onClick={() => { setIsNewGameModalOpen(false); setIsEditorOpen(true); }} className="w-full p-4 rounded-2xl border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 flex justify-between items-center transition-all active:scale-95">
+                  <span className="font-bold text-slate-600 dark:text-slate-300">{t('editor.open')}</span>
+                  <PencilLine size={16} className="text-slate-500" />
+                </button>
+                <button type="button" onClick={() => { setIsNewGameModalOpen(false); setIsBookletOpen(true); }} className="w-full p-4 rounded-2xl border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 flex justify-between items-center transition-all active:scale-95">
+                  <span className="font-bold text-slate-600 dark:text-slate-300">{t('booklet.open')}</span>
+                  <Printer size={16} className="text-slate-500" />
+                </button>
+                <button type="button" onClick={() => { setIsNewGameModalOpen(false); setIsRaceOpen(true); }} className="w-full p-4 rounded-2xl border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 flex justify-between items-center transition-all active:scale-95">
+                  <span className="font-bold text-slate-600 dark:text-slate-300">{t('race.open')}</span>
+                  <Swords size={16} className="text-slate-500" />
+                </button>
+                <div className="pt-3 border-t border-slate-100 dark:border-slate-700 space-y-2">
+                  <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('newGame.saves')}</p>
+                  {saves.map((save, slot) => (
+                    <div key={slot} className={`flex items-center gap-3 p-3 rounded-2xl border ${slot === saveSlot ? 'border-accent-500/40 bg-accent-500/10' : 'border-slate-100 dark:border-slate-700'}`}>
+                      <span className="w-6 h-6 flex items-center justify-center rounded-lg bg-slate-100 dark:bg-slate-700 text-xs font-black text-slate-600 dark:text-slate-300">{slot + 1}</span>
+                      <span className="flex-1 text-xs font-bold text-slate-600 dark:text-slate-300">
+                        {save ? `${t(`difficulty.${save.difficulty}`)}${save.mode !== GameMode.NORMAL ? ` • ${t(`mode.${save.mode}`)}` : ''}${save.variant !== Variant.CLASSIC ? ` • ${t(`variant.${save.variant}`)}` : ''}${save.size !== 9 ? ` • ${save.size}x${save.size}` : ''} • ${formatTime(save.time)} • ${save.finished ? t('save.finished') : `${save.progress}%`}` : t('save.empty')}
+                      </span>
+                      {slot === saveSlot && !gameState.daily ? (
+                        <span className="text-[10px] uppercase font-black text-accent-500">{t('save.current')}</span>
+                      ) : (
+                        <>
+                          <button type="button" onClick={() => switchSlot(slot)} className="text-[10px] uppercase font-black text-accent-500 hover:underline">{save ? t('save.continue') : t('save.newGame')}</button>
+                          {save && (
+                            <button type="button" onClick={() => removeSave(slot)} title={t('save.delete')} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition">
+                              <Trash2 size={14} className="text-error-500" />
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <form onSubmit={handleCodeSubmit} className="pt-3 border-t border-slate-100 dark:border-slate-700">
+                  <label htmlFor="puzzle-code" className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('newGame.code')}</label>
+                  <div className="flex gap-2 mt-1">
+                    <input id="puzzle-code" value={codeInput} onChange={e => { setCodeInput(e.target.value); setCodeError(false); }} placeholder="H-0K3F9QZ" className={`flex-1 min-w-0 px-3 py-2 rounded-xl font-mono uppercase bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white border ${codeError ? 'border-error-500' : 'border-transparent'} outline-none focus:border-accent-500`} />
+                    <button type="submit" disabled={!codeInput.trim()} className="px-4 py-2 rounded-xl bg-accent-500 text-white font-bold transition active:scale-95 disabled:opacity-40">{t('newGame.open')}</button>
+                  </div>
+                  {codeError && <p className="text-xs text-error-500 mt-1">{t('newGame.invalidCode')}</p>}
+                </form>
+              </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Modal: Confirmar Reinício */}
-      {showConfirmReset && (
-        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in zoom-in duration-200">
-          <div className="bg-white dark:bg-slate-800 w-full max-w-xs rounded-3xl shadow-2xl p-6 text-center border border-slate-200 dark:border-slate-700">
-            <div className="w-16 h-16 bg-red-100 dark:bg-red-900/30 text-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
-              <AlertTriangle size={32} />
-            </div>
-            <h3 className="text-xl font-black mb-2 text-slate-900 dark:text-white">Reiniciar Jogo?</h3>
-            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">Você perderá o progresso da partida atual.</p>
-            <div className="grid grid-cols-2 gap-3">
-              <button type="button" onClick={() => setShowConfirmReset(null)} className="py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300">Cancelar</button>
-              <button type="button" onClick={() => startNewGame(showConfirmReset, gameState?.zenMode)} className="py-3 rounded-xl bg-red-500 font-bold text-white">Reiniciar</button>
-            </div>
-          </div>
-        </div>
-      )}
+        {/* Modal: Importar / Exportar */}
+        {isTransferModalOpen && (
+          <PuzzleTransferModal
+            board={gameState.board}
+            layout={gameState.layout}
+            time={gameState.time}
+            errors={gameState.errors}
+            onImport={loadImportedPuzzle}
+            onClose={() => setIsTransferModalOpen(false)}
+          />
+        )}
 
-      {/* Header */}
-      <div className="w-full max-w-lg flex justify-between items-center mb-6">
-        <div>
-          <h1 className="text-2xl font-black flex items-center gap-2 tracking-tighter italic">
-            <Target className="text-cyan-500" size={28} />
-            NEON SUDOKU
-          </h1>
-          <div className="flex items-center gap-2 mt-1">
-            <span className={`text-[10px] uppercase font-black px-2 py-0.5 rounded-md border ${gameState.zenMode ? 'bg-pink-500 border-pink-500 text-white' : 'bg-cyan-500/10 border-cyan-500/20 text-cyan-600'}`}>
-              {gameState.zenMode ? 'Modo Zen' : gameState.difficulty}
-            </span>
-          </div>
-        </div>
-        <div className="flex gap-2">
-          <button type="button" onClick={() => setSettings(s => ({ ...s, darkMode: !s.darkMode }))} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
-            {settings.darkMode ? <Sun size={18} className="text-yellow-500" /> : <Moon size={18} className="text-slate-700" />}
-          </button>
-          <button type="button" onClick={() => setIsNewGameModalOpen(true)} className="px-4 py-2 rounded-xl bg-cyan-500 text-white font-bold shadow-lg shadow-cyan-500/30 transition active:scale-95">
-            <Plus size={18} />
-          </button>
-        </div>
-      </div>
+        {/* Modal: Estatísticas */}
+        {isStatsOpen && (
+          <StatsModal records={records} onRecordsChange={setRecords} onClose={() => setIsStatsOpen(false)} />
+        )}
 
-      {/* Stats Bar */}
-      <div className="w-full max-w-lg grid grid-cols-3 gap-3 mb-6">
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 text-center">
-          <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">Erros</p>
-          <p className={`text-xl font-black ${gameState.errors >= gameState.maxErrors ? 'text-red-500' : 'text-slate-900 dark:text-white'}`}>
-            {gameState.errors}/{gameState.maxErrors}
-          </p>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 text-center">
-          <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">Tempo</p>
-          <p className="text-xl font-mono font-black text-slate-900 dark:text-white">
-            {Math.floor(gameState.time / 60).toString().padStart(2, '0')}:{(gameState.time % 60).toString().padStart(2, '0')}
-          </p>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 flex flex-col items-center justify-center">
-          <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">Progresso</p>
-          <span className="text-sm font-black text-slate-900 dark:text-white">{progress}%</span>
-        </div>
-      </div>
+        {/* Modal: Desafio diário */}
+        {isDailyOpen && (
+          <DailyModal results={dailyResults} onPlay={playDaily} onClose={() => setIsDailyOpen(false)} />
+        )}
 
-      {/* Sudoku Grid + Popups */}
-      <div className="relative w-full max-w-lg sudoku-grid bg-white dark:bg-slate-800 rounded-3xl shadow-2xl overflow-hidden border-4 border-slate-200 dark:border-slate-700 select-none transition-all duration-300">
-        
-        {/* Vitória Pop-up */}
-        {gameState.isWon && (
-          <div className="absolute inset-0 z-[40] bg-cyan-500/95 flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in zoom-in duration-500">
-            <Award size={80} className="mb-4 animate-bounce" />
-            <h2 className="text-5xl font-black mb-2 italic">PARABÉNS!</h2>
-            <p className="text-lg opacity-90 mb-8 bg-black/10 px-4 py-1 rounded-full">
-              {gameState.difficulty} • {Math.floor(gameState.time / 60)}m {gameState.time % 60}s
-            </p>
-            <button type="button" onClick={() => setIsNewGameModalOpen(true)} className="bg-white text-cyan-600 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
-              Jogar Novamente
-            </button>
+        {/* Modal: Caderno para imprimir */}
+        {isBookletOpen && (
+          <BookletModal onClose={() => setIsBookletOpen(false)} />
+        )}
+
+        {/* Modal: Corrida contra outros jogadores */}
+        {isRaceOpen && (
+          <RaceModal
+            status={raceSession.status}
+            race={race}
+            playerId={raceSession.playerId}
+            onJoin={raceSession.join}
+            onStart={raceSession.start}
+            onLeave={raceSession.leave}
+            onClose={() => setIsRaceOpen(false)}
+          />
+        )}
+
+        {/* Anúncios para leitores de tela */}
+        <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
+        {/* Modal: Atalhos do teclado */}
+        {isShortcutsOpen && (
+          <ShortcutsModal hexDigits={size === 16} onClose={() => setIsShortcutsOpen(false)} />
+        )}
+
+        {/* Modal: Configurações */}
+        {isSettingsOpen && (
+          <SettingsModal
+            settings={settings}
+            focusMode={gameState.focusMode}
+            onSettingsChange={setSettings}
+            onFocusModeChange={focusMode => setGameState(prev => prev ? { ...prev, focusMode } : null)}
+            onShowShortcuts={() => { setIsSettingsOpen(false); setIsShortcutsOpen(true); }}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
+
+        {/* Modal: Replay da partida */}
+        {replayStep !== null && (
+          <ReplayViewer
+            initialBoard={gameState.initialBoard}
+            layout={layout}
+            actions={gameState.actions.slice(0, gameState.actionCursor)}
+            initialStep={replayStep}
+            onClose={() => setReplayStep(null)}
+          />
+        )}
+
+        {/* Modal: Análise dos erros e do ritmo */}
+        {isAnalysisOpen && (
+          <AnalysisModal
+            game={gameState}
+            onShowMove={step => { setIsAnalysisOpen(false); setReplayStep(step); }}
+            onClose={() => setIsAnalysisOpen(false)}
+          />
+        )}
+
+        {/* Modal: Confirmar Reinício */}
+        {showConfirmReset && (
+          <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in zoom-in duration-200">
+            <div className="bg-white dark:bg-slate-800 w-full max-w-xs rounded-3xl shadow-2xl p-6 text-center border border-slate-200 dark:border-slate-700">
+              <div className="w-16 h-16 bg-error-100 dark:bg-error-900/30 text-error-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                <AlertTriangle size={32} />
+              </div>
+              <h3 className="text-xl font-black mb-2 text-slate-900 dark:text-white">{t('confirmReset.title')}</h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">{t('confirmReset.message')}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <button type="button" onClick={() => setShowConfirmReset(null)} className="py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300">{t('common.cancel')}</button>
+                <button type="button" onClick={() => startNewGame(showConfirmReset.difficulty, showConfirmReset.mode, showConfirmReset.seed, showConfirmReset.variant, showConfirmReset.size)} className="py-3 rounded-xl bg-error-500 font-bold text-white">{t('confirmReset.confirm')}</button>
+              </div>
+            </div>
           </div>
         )}
 
-        {/* Derrota Pop-up */}
-        {gameState.isGameOver && !gameState.isWon && (
-          <div className="absolute inset-0 z-[40] bg-red-500/95 flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in zoom-in duration-500">
-            <AlertTriangle size={80} className="mb-4" />
-            <h2 className="text-4xl font-black mb-2 uppercase italic text-white">GAME OVER</h2>
-            <p className="text-lg opacity-80 mb-8 italic text-white">Você cometeu {gameState.errors} erros.</p>
-            <button type="button" onClick={() => setIsNewGameModalOpen(true)} className="bg-white text-red-600 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
-              Tentar Novamente
+        {/* Header */}
+        <div className="w-full max-w-lg flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-black flex items-center gap-2 tracking-tighter italic">
+              <Target className="text-accent-500" size={28} />
+              NEON SUDOKU
+            </h1>
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-accent-500/10 border-accent-500/20 text-accent-600">
+                {t(`difficulty.${gameState.difficulty}`)}
+              </span>
+              {gameState.mode !== GameMode.NORMAL && (
+                <span title={t(`mode.${gameState.mode}.description`)} className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-pink-500 border-pink-500 text-white">
+                  {t(`mode.${gameState.mode}`)}{gameState.mode === GameMode.SURVIVAL ? ` • #${gameState.chain + 1}` : ''}
+                </span>
+              )}
+              {gameState.daily && (
+                <span className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-amber-500/10 border-amber-500/20 text-amber-500">
+                  {t('daily.badge')} • {parseDateKey(gameState.daily).toLocaleDateString(settings.language)}
+                </span>
+              )}
+              {layout.variant !== Variant.CLASSIC && (
+                <span title={t(`variant.${layout.variant}.description`)} className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-violet-500/10 border-violet-500/20 text-violet-500">
+                  {t(`variant.${layout.variant}`)}
+                </span>
+              )}
+              {size !== 9 && (
+                <span className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-violet-500/10 border-violet-500/20 text-violet-500">
+                  {size}x{size}
+                </span>
+              )}
+              <span title={t('game.ratingTitle')} className="text-[10px] uppercase font-black px-2 py-0.5 rounded-md border bg-slate-500/10 border-slate-500/20 text-slate-500 dark:text-slate-400">
+                {ratingLabel(gameState.rating, i18n)} • {t('game.points', { score: gameState.rating.score })}
+              </span>
+              {gameState.seed !== null && (
+                <button type="button" onClick={copyPuzzleCode} title={t('game.copyCode')} className="flex items-center gap-1 text-[10px] font-mono font-black px-2 py-0.5 rounded-md border bg-slate-500/10 border-slate-500/20 text-slate-500 dark:text-slate-400 transition active:scale-95">
+                  {encodePuzzleCode(gameState.difficulty, gameState.seed, layout.variant, size)}
+                  {codeCopied ? <Check size={10} className="text-success-500" /> : <Copy size={10} />}
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setIsDailyOpen(true)} title={t('daily.title')} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              <CalendarDays size={18} className="text-accent-500" />
+            </button>
+            <button type="button" onClick={() => setIsStatsOpen(true)} title={t('stats.title')} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              <BarChart3 size={18} className="text-accent-500" />
+            </button>
+            <button type="button" onClick={() => setIsTransferModalOpen(true)} title={t('transfer.title')} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              <ArrowDownUp size={18} className="text-accent-500" />
+            </button>
+            <button type="button" onClick={() => setIsSettingsOpen(true)} title={t('settings.title')} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              <SettingsIcon size={18} className="text-accent-500" />
+            </button>
+            <button type="button" onClick={() => setSettings(s => ({ ...s, muted: !s.muted }))} title={`${t(settings.muted ? 'game.unmute' : 'game.mute')} (U)`} aria-pressed={settings.muted} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              {settings.muted ? <VolumeX size={18} className="text-slate-400" /> : <Volume2 size={18} className="text-accent-500" />}
+            </button>
+            <button type="button" onClick={() => setSettings(s => ({ ...s, darkMode: !s.darkMode }))} title={t('game.toggleTheme')} className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-800 shadow-md transition active:scale-95 border border-slate-100 dark:border-slate-700">
+              {settings.darkMode ? <Sun size={18} className="text-yellow-500" /> : <Moon size={18} className="text-slate-700" />}
+            </button>
+            <button type="button" onClick={openNewGameModal} title={t('newGame.title')} className="px-4 py-2 rounded-xl bg-accent-500 text-white font-bold shadow-lg shadow-accent-500/30 transition active:scale-95">
+              <Plus size={18} />
             </button>
           </div>
-        )}
+        </div>
 
-        {/* Pausa Overlay */}
-        {gameState.isPaused && !gameState.isGameOver && !gameState.isWon && (
-          <div className="absolute inset-0 z-10 bg-white/90 dark:bg-slate-900/90 flex flex-col items-center justify-center backdrop-blur-md animate-in fade-in duration-300">
-            <button type="button" onClick={() => setGameState(p => p ? { ...p, isPaused: false } : null)} className="w-20 h-20 bg-cyan-500 text-white rounded-full flex items-center justify-center shadow-xl hover:scale-110 transition active:scale-95 mb-4">
-              <Play size={40} fill="currentColor" />
+        {/* Editor de jogos no lugar do tabuleiro */}
+        {isEditorOpen ? (
+          <PuzzleEditor onPlay={puzzle => { setIsEditorOpen(false); loadImportedPuzzle(puzzle); }} onClose={() => setIsEditorOpen(false)} />
+        ) : (
+          <>
+          {/* Stats Bar (escondida no modo foco) */}
+          {gameState.focusMode ? (
+            <button type="button" onClick={() => setGameState(p => p ? { ...p, focusMode: false } : null)} className="mb-4 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-500/10 text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 transition hover:bg-slate-500/20">
+              <Minimize2 size={12} /> {t('game.exitFocus')}
             </button>
-            <h2 className="text-2xl font-black uppercase text-slate-900 dark:text-white">Pausado</h2>
+          ) : (
+          <div className="w-full max-w-lg grid grid-cols-3 gap-3 mb-6">
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 text-center">
+              {gameState.mode === GameMode.SURVIVAL ? (
+                <>
+                  <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">{t('game.lives')}</p>
+                  <p className={`text-xl font-black flex items-center justify-center gap-1 ${gameState.errors >= gameState.maxErrors - 1 ? 'text-error-500' : 'text-slate-900 dark:text-white'}`}>
+                    <Heart size={16} className="text-error-500" fill="currentColor" /> {gameState.maxErrors - gameState.errors}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">{t('game.errors')}</p>
+                  <p className={`text-xl font-black ${gameState.errors >= gameState.maxErrors ? 'text-error-500' : 'text-slate-900 dark:text-white'}`}>
+                    {gameState.errors}/{gameState.maxErrors}
+                  </p>
+                </>
+              )}
+            </div>
+            <div className="relative bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 text-center">
+              {/* Contagem regressiva e Blitz mostram o tempo que resta */}
+              <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">{gameState.timeLimit !== null ? t('game.timeLeft') : t('game.time')}</p>
+              <p className={`text-xl font-mono font-black ${timeLeft !== null && timeLeft <= 30 ? 'text-error-500' : 'text-slate-900 dark:text-white'}`}>
+                {formatTime(timeLeft ?? gameState.time)}
+              </p>
+              {timeBonus !== null && (
+                <span className="absolute top-1 right-2 text-xs font-black text-success-500 animate-in fade-in duration-200">+{timeBonus}s</span>
+              )}
+            </div>
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 flex flex-col items-center justify-center">
+              <p className="text-[10px] uppercase text-slate-500 dark:text-slate-400 font-black mb-1">{t('game.progress')}</p>
+              <span className="text-sm font-black text-slate-900 dark:text-white">{progress}%</span>
+            </div>
           </div>
-        )}
+          )}
+
+          {/* Corrida: progresso dos adversários */}
+          {race && (
+            <RaceProgress race={race} playerId={raceSession.playerId} status={raceSession.status} onOpen={() => setIsRaceOpen(true)} />
+          )}
+
+          {/* Resultado da verificação */}
+          {checkResult !== null && (
+            <div className={`w-full max-w-lg mb-4 p-3 rounded-2xl border flex items-center gap-2 text-sm font-bold animate-in fade-in duration-200 ${checkResult === 0 ? 'bg-success-500/10 border-success-500/30 text-success-600 dark:text-success-400' : 'bg-error-500/10 border-error-500/30 text-error-600 dark:text-error-400'}`}>
+              <CheckCheck size={18} />
+              {checkMessage(checkResult, i18n)}
+            </div>
+          )}
+
+          {/* Dica em estágios */}
+          {activeHint && !gameState.isGameOver && (
+            <div className="w-full max-w-lg mb-4 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/30 flex items-start gap-3 animate-in fade-in duration-200">
+              <Lightbulb size={20} className="text-amber-500 shrink-0 mt-0.5" />
+              <div className="flex-1 text-sm">
+                <p className="text-[10px] uppercase font-black text-amber-600 dark:text-amber-400 mb-1">
+                  {activeHint.stage === 1 ? t('hint.lookAtRegion') : t(`technique.${activeHint.hint.technique}`)}
+                </p>
+                {activeHint.stage === 3 && <p className="text-slate-700 dark:text-slate-200">{describeHint(activeHint.hint, i18n)}</p>}
+              </div>
+              <button type="button" onClick={hint} className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-amber-500 text-white text-xs font-black uppercase transition active:scale-95">
+                {activeHint.stage < 3 ? t('hint.more') : t('hint.apply')} <ChevronRight size={14} />
+              </button>
+              <button type="button" onClick={() => setActiveHint(null)} aria-label={t('common.close')} className="p-1.5 hover:bg-amber-500/20 rounded-full transition">
+                <X size={16} className="text-amber-600 dark:text-amber-400" />
+              </button>
+            </div>
+          )}
+
+          {/* Sudoku Grid + Popups */}
+          <div className="relative w-full max-w-lg sudoku-grid bg-white dark:bg-slate-800 rounded-3xl shadow-2xl overflow-hidden border-4 border-slate-200 dark:border-slate-700 select-none transition-all duration-300">
+          
+            {/* Sobrevivência: cada jogo resolvido leva ao próximo, com as vidas que sobraram */}
+            {gameState.isWon && gameState.mode === GameMode.SURVIVAL && (
+              <div className="absolute inset-0 z-[40] bg-entry-500/95 flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in zoom-in duration-500">
+                <Heart size={80} className="mb-4 animate-bounce" fill="currentColor" />
+                <h2 className="text-4xl font-black mb-2 italic">{t('survival.clearedTitle', { count: gameState.chain + 1 })}</h2>
+                <p className="text-lg opacity-90 mb-8 bg-black/10 px-4 py-1 rounded-full">
+                  {plural('survival.livesLeft', gameState.maxErrors - gameState.errors)} • {formatTime(gameState.time)}
+                </p>
+                <button type="button" onClick={nextSurvivalPuzzle} className="bg-white text-entry-600 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
+                  {t('survival.next')}
+                </button>
+                <button type="button" onClick={openNewGameModal} className="mt-4 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                  {t('survival.stop')}
+                </button>
+              </div>
+            )}
 
-        <div className="grid grid-cols-9 h-full">
-          {gameState.board.map((row, r) => 
-            row.map((cell, c) => {
-              const isSel = gameState.selectedCell?.[0] === r && gameState.selectedCell?.[1] === c;
-              const isRel = isRelated(r, c);
-              const isIden = settings.highlightIdentical && isIdentical(cell.value);
-              return (
-                <div key={`${r}-${c}`} onClick={() => handleCellSelect(r, c)} className={`relative flex items-center justify-center cursor-pointer border-[0.5px] border-slate-200 dark:border-slate-700 text-xl md:text-3xl font-bold transition-all duration-150 ${r % 3 === 2 && r < 8 ? 'border-b-2 md:border-b-4 border-b-slate-400 dark:border-b-slate-600' : ''} ${c % 3 === 2 && c < 8 ? 'border-r-2 md:border-r-4 border-r-slate-400 dark:border-r-slate-600' : ''} ${isSel ? 'bg-cyan-500 text-white z-10 shadow-[inset_0_0_15px_rgba(255,255,255,0.4)]' : isIden ? 'bg-cyan-100 dark:bg-cyan-900/40' : isRel ? 'bg-slate-100 dark:bg-slate-700/60' : ''}`}>
-                  {cell.value ? (
-                    <span className={`${isSel ? 'text-white' : cell.fixed ? 'text-slate-900 dark:text-white' : 'text-emerald-600 dark:text-emerald-400 drop-shadow-[0_0_8px_rgba(52,211,153,0.3)]'} ${cell.error ? 'text-red-500 dark:text-red-400 drop-shadow-[0_0_12px_rgba(239,68,68,0.7)]' : ''}`}>
-                      {cell.value}
-                    </span>
-                  ) : cell.notes.size > 0 ? (
-                    <div className="grid grid-cols-3 w-full h-full p-1 pointer-events-none">
-                      {[1,2,3,4,5,6,7,8,9].map(n => (
-                        <div key={n} className={`flex items-center justify-center text-[8px] md:text-[11px] font-black ${isSel ? 'text-white/80' : 'text-slate-400 dark:text-slate-500'}`}>
-                          {cell.notes.has(n) ? n : ''}
-                        </div>
-                      ))}
+            {/* Vitória Pop-up */}
+            {gameState.isWon && gameState.mode !== GameMode.SURVIVAL && (
+              <div className="absolute inset-0 z-[40] bg-accent-500/95 flex overflow-y-auto text-white p-8 text-center animate-in fade-in zoom-in duration-500">
+                <div className="m-auto flex flex-col items-center">
+                  <Award size={80} className="mb-4 animate-bounce" />
+                  <h2 className="text-5xl font-black mb-2 italic">{t('won.title')}</h2>
+                  <p className="text-lg opacity-90 mb-8 bg-black/10 px-4 py-1 rounded-full">
+                    {t(`difficulty.${gameState.difficulty}`)} • {Math.floor(gameState.time / 60)}m {gameState.time % 60}s
+                  </p>
+                  {score && (
+                    <div className="-mt-4 mb-8 flex flex-col items-center gap-3">
+                      <p className="text-3xl font-black font-mono">{t('game.points', { score: score.total.toLocaleString(settings.language) })}</p>
+                      <p className="text-xs opacity-90">{t('score.breakdown', { entries: score.entries + score.streaks, units: score.units, speed: score.speed, errors: -score.errors, hints: -score.hints, multiplier: score.multiplier })}</p>
+                      {gameState.mode === GameMode.NORMAL && (
+                        <>
+                          <p className="text-[10px] uppercase font-black opacity-90">{t('score.leaderboard', { difficulty: t(`difficulty.${gameState.difficulty}`) })}</p>
+                          <LeaderboardList entries={leaderboard[gameState.difficulty]} highlightId={gameState.id} />
+                        </>
+                      )}
                     </div>
-                  ) : null}
+                  )}
+                  {timeLeft !== null && (
+                    <p className="-mt-6 mb-8 flex items-center gap-1 text-sm font-bold">
+                      {gameState.mode === GameMode.BLITZ ? <Zap size={16} /> : <Hourglass size={16} />}
+                      {t('won.timeLeft', { time: formatTime(timeLeft) })}
+                      {gameState.mode === GameMode.BLITZ && ` • ${plural('blitz.bonus', gameState.bonusUnits.length, { seconds: gameState.bonusUnits.length * MODE_RULES[GameMode.BLITZ].unitBonus })}`}
+                    </p>
+                  )}
+                  {gameState.daily && (
+                    <p className="-mt-6 mb-8 flex items-center gap-1 text-sm font-bold">
+                      <Flame size={16} /> {plural('daily.streakDays', dailyStreak(dailyResults).current)}
+                    </p>
+                  )}
+                  {isRaceGame && race.status === 'finished' && (
+                    <p className="-mt-6 mb-8 flex items-center gap-1 text-sm font-bold">
+                      <Crown size={16} /> {raceResult}
+                    </p>
+                  )}
+                  <button type="button" onClick={openNewGameModal} className="bg-white text-accent-600 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
+                    {t('won.playAgain')}
+                  </button>
+                  <button type="button" onClick={() => setReplayStep(0)} className="mt-4 flex items-center gap-2 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                    <History size={16} /> {t('game.review')}
+                  </button>
+                  <button type="button" onClick={() => setIsAnalysisOpen(true)} className="mt-2 flex items-center gap-2 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                    <BarChart3 size={16} /> {t('game.analysis')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Derrota Pop-up */}
+            {gameState.isGameOver && !gameState.isWon && (
+              <div className="absolute inset-0 z-[40] bg-error-500/95 flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in zoom-in duration-500">
+                {loss === 'timeout' ? <Hourglass size={80} className="mb-4" /> : gameState.mode === GameMode.SURVIVAL ? <Heart size={80} className="mb-4" /> : <AlertTriangle size={80} className="mb-4" />}
+                <h2 className="text-4xl font-black mb-2 uppercase italic text-white">
+                  {loss === 'timeout' ? t('lost.timeoutTitle') : gameState.mode === GameMode.SURVIVAL ? t('survival.overTitle') : t('lost.title')}
+                </h2>
+                <p className="text-lg opacity-80 mb-8 italic text-white">
+                  {loss === 'timeout'
+                    ? gameState.mode === GameMode.BLITZ
+                      ? plural('blitz.bonus', gameState.bonusUnits.length, { seconds: gameState.bonusUnits.length * MODE_RULES[GameMode.BLITZ].unitBonus })
+                      : t('lost.timeoutMessage', { progress })
+                    : gameState.mode === GameMode.SURVIVAL ? plural('survival.cleared', gameState.chain) : plural('lost.message', gameState.errors)}
+                </p>
+                <button type="button" onClick={openNewGameModal} className="bg-white text-error-600 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
+                  {t('lost.tryAgain')}
+                </button>
+                <button type="button" onClick={() => setReplayStep(0)} className="mt-4 flex items-center gap-2 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                  <History size={16} /> {t('game.review')}
+                </button>
+                <button type="button" onClick={() => setIsAnalysisOpen(true)} className="mt-2 flex items-center gap-2 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                  <BarChart3 size={16} /> {t('game.analysis')}
+                </button>
+              </div>
+            )}
+
+            {/* Fim da corrida para quem ainda não tinha terminado */}
+            {isRaceOver && (
+              <div className="absolute inset-0 z-[40] bg-slate-900/95 flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in zoom-in duration-500">
+                <Swords size={80} className="mb-4" />
+                <h2 className="text-4xl font-black mb-2 uppercase italic">{t('race.over')}</h2>
+                <p className="text-lg opacity-80 mb-8">{raceResult}</p>
+                <button type="button" onClick={() => setIsRaceOpen(true)} className="bg-white text-slate-900 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition active:scale-95 uppercase">
+                  {t('race.rematch')}
+                </button>
+                <button type="button" onClick={openNewGameModal} className="mt-4 text-sm font-bold opacity-90 hover:opacity-100 hover:underline">
+                  {t('won.playAgain')}
+                </button>
+              </div>
+            )}
+
+            {/* Gerando novo jogo */}
+            {generating && (
+              <div className="absolute inset-0 z-[50] bg-white/90 dark:bg-slate-900/90 flex flex-col items-center justify-center gap-4 backdrop-blur-md animate-in fade-in duration-200">
+                <Loader2 size={48} className="text-accent-500 animate-spin" />
+                <p className="text-sm uppercase font-black text-slate-900 dark:text-white">{t('newGame.generating', { difficulty: t(`difficulty.${generating}`) })}</p>
+                <button type="button" onClick={cancelGeneration} className="px-6 py-2 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300 transition active:scale-95">
+                  {t('common.cancel')}
+                </button>
+              </div>
+            )}
+
+            {/* Pausa Overlay */}
+            {gameState.isPaused && !gameState.isGameOver && !gameState.isWon && (
+              <div className="absolute inset-0 z-10 bg-white/90 dark:bg-slate-900/90 flex flex-col items-center justify-center backdrop-blur-md animate-in fade-in duration-300">
+                <button type="button" onClick={() => dispatch({ type: 'pause', paused: false })} className="w-20 h-20 bg-accent-500 text-white rounded-full flex items-center justify-center shadow-xl hover:scale-110 transition active:scale-95 mb-4">
+                  <Play size={40} fill="currentColor" />
+                </button>
+                <h2 className="text-2xl font-black uppercase text-slate-900 dark:text-white">{t('game.paused')}</h2>
+              </div>
+            )}
+
+            <div role="grid" aria-label={t('game.board')} aria-rowcount={size} aria-colcount={size} aria-multiselectable="true" style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }} className="grid h-full">
+              {gameState.board.map((row, r) => (
+                <div key={r} role="row" aria-rowindex={r + 1} className="contents">
+                  {row.map((cell, c) => {
+                    const isSel = gameState.selectedCell?.[0] === r && gameState.selectedCell?.[1] === c;
+                    const isMulti = multiSelection.has(r * size + c);
+                    const isRel = isRelated(r, c);
+                    const isIden = settings.highlightIdentical && isIdentical(cell.value);
+                    const key = `${r}-${c}`;
+                    const isHintCell = hintCells.has(key);
+                    const isHintRegion = hintRegion.has(key);
+                    const eliminated = hintEliminations.get(key);
+                    const isHintPlacement = activeHint?.stage === 3 && activeHint.hint.placement?.row === r && activeHint.hint.placement?.col === c;
+                    // Bordas grossas onde a região muda: blocos ou formas do Jigsaw
+                    const i = r * size + c;
+                    const regionEndsBelow = r < size - 1 && layout.regions[i] !== layout.regions[i + size];
+                    const regionEndsRight = c < size - 1 && layout.regions[i] !== layout.regions[i + 1];
+                    const isDiagonal = layout.variant === Variant.DIAGONAL && (r === c || r + c === size - 1);
+                    const cage = constraints.cageOf[i];
+                    const isDimmed = focusDigit !== null && !isSel && !focusCells.has(i);
+                    const glow = settings.neuralFeedback;
+                    // Foco itinerante: só a célula selecionada (ou a primeira) entra na ordem do Tab
+                    const isTabStop = gameState.selectedCell ? isSel : i === 0;
+                    return (
+                      <div
+                        key={`${r}-${c}`}
+                        ref={el => { cellRefs.current[i] = el; }}
+                        role="gridcell"
+                        aria-colindex={c + 1}
+                        aria-selected={isSel || isMulti}
+                        aria-readonly={cell.fixed}
+                        aria-label={describeCell(cell, r, c, i18n)}
+                        tabIndex={isTabStop ? 0 : -1}
+                        onFocus={() => handleCellFocus(r, c)}
+                        onPointerDown={e => handleCellPointerDown(e, r, c)}
+                        onPointerEnter={() => handleCellPointerEnter(r, c)}
+                        className={`relative flex items-center justify-center cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-accent-300 border-[0.5px] border-slate-200 dark:border-slate-700 ${size === 16 ? 'text-xs md:text-lg' : 'text-xl md:text-3xl'} font-bold transition-all duration-150 ${isDimmed ? 'opacity-25' : ''} ${pulseCells.has(i) ? 'animate-completion' : ''} ${regionEndsBelow ? 'border-b-2 md:border-b-4 border-b-slate-400 dark:border-b-slate-600' : ''} ${regionEndsRight ? 'border-r-2 md:border-r-4 border-r-slate-400 dark:border-r-slate-600' : ''} ${isSel ? 'bg-accent-500 text-white z-10 shadow-[inset_0_0_15px_rgba(255,255,255,0.4)]' : isMulti ? 'bg-accent-500/30' : isHintCell ? 'bg-amber-300/70 dark:bg-amber-500/40' : isHintRegion ? 'bg-amber-100 dark:bg-amber-500/15' : isIden ? 'bg-accent-100 dark:bg-accent-900/40' : isRel ? 'bg-slate-100 dark:bg-slate-700/60' : isDiagonal ? 'bg-violet-500/10' : ''}`}>
+                        {cell.color !== null && (
+                          <div className={`absolute inset-0 pointer-events-none opacity-40 ${CELL_COLORS[cell.color]}`} />
+                        )}
+                        {cage && (
+                          <div className="absolute pointer-events-none border-dashed border-slate-400 dark:border-slate-500" style={cageOutlineStyle(layout, r, c)} />
+                        )}
+                        {cage?.cells[0] === i && (
+                          <span className={`absolute top-0.5 left-1 text-[8px] md:text-[10px] font-black leading-none pointer-events-none ${isSel ? 'text-white' : 'text-slate-500 dark:text-slate-400'}`}>{cage.sum}</span>
+                        )}
+                        {cell.value ? (
+                          <>
+                            <span className={`relative ${isSel ? 'text-white' : cell.fixed ? 'text-slate-900 dark:text-white' : `text-entry-600 dark:text-entry-400 ${glow ? 'drop-shadow-[0_0_8px_rgb(var(--entry-400)/0.3)]' : ''}`} ${cell.error ? `text-error-500 dark:text-error-400 underline decoration-wavy decoration-2 underline-offset-4 ${glow ? 'drop-shadow-[0_0_12px_rgb(var(--error-500)/0.7)]' : ''}` : ''}`}>
+                              {digitLabel(cell.value)}
+                            </span>
+                            {/* O erro também leva sublinhado e ícone, para não depender só da cor */}
+                            {cell.error && <AlertTriangle size={size === 16 ? 8 : 12} aria-hidden="true" className={`absolute bottom-0.5 right-0.5 pointer-events-none ${isSel ? 'text-white' : 'text-error-500 dark:text-error-400'}`} />}
+                          </>
+                        ) : isHintPlacement ? (
+                          <span className="relative text-amber-500 animate-pulse">{digitLabel(activeHint!.hint.placement!.value)}</span>
+                        ) : (
+                          <CellMarks notes={cell.notes} cornerNotes={cell.cornerNotes} size={size} eliminated={eliminated} selected={isSel} inCage={!!cage} />
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
-              );
-            })
+              ))}
+            </div>
+          </div>
+
+          {/* Main Controls */}
+          {!gameState.focusMode && (
+          <div className={`w-full max-w-lg mt-6 grid ${settings.autoCheckErrors ? 'grid-cols-6' : 'grid-cols-7'} gap-2`}>
+            <button type="button" onClick={undo} disabled={gameState.actionCursor === 0} title="Ctrl+Z" className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90 disabled:opacity-30">
+              <Undo size={22} className="text-slate-700 dark:text-slate-200" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.undo')}</span>
+            </button>
+            <button type="button" onClick={redo} disabled={gameState.actionCursor >= gameState.actions.length} title="Ctrl+Shift+Z / Ctrl+Y" className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90 disabled:opacity-30">
+              <Redo size={22} className="text-slate-700 dark:text-slate-200" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.redo')}</span>
+            </button>
+            <button type="button" onClick={() => handleInput(null)} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
+              <Trash2 size={22} className="text-error-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.erase')}</span>
+            </button>
+            <button type="button" onClick={() => setGameState(p => p ? { ...p, noteMode: !p.noteMode } : null)} title="N" className={`flex flex-col items-center justify-center gap-1.5 p-4 rounded-2xl shadow-md transition active:scale-90 ${gameState.noteMode ? 'bg-accent-500 text-white' : 'bg-white dark:bg-slate-800'}`}>
+              <BrainCircuit size={22} className={gameState.noteMode ? 'text-white' : 'text-accent-500'} /><span className={`text-[9px] uppercase font-black ${gameState.noteMode ? 'text-white/90' : 'text-slate-500 dark:text-slate-400'}`}>{t('controls.notes')}</span>
+            </button>
+            {!settings.autoCheckErrors && (
+              <button type="button" onClick={checkBoard} title="V" className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
+                <CheckCheck size={22} className="text-success-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.check')}</span>
+              </button>
+            )}
+            <button type="button" onClick={hint} disabled={hintsLeft <= 0} title={`H • ${plural('controls.hintsLeft', hintsLeft)}`} className="relative flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90 disabled:opacity-30">
+              <Lightbulb size={22} className="text-yellow-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.hint')}</span>
+              {MODE_RULES[gameState.mode].limitedHints && <span className="absolute top-1.5 right-1.5 min-w-4 h-4 px-1 rounded-full bg-yellow-500 text-[9px] font-black text-white flex items-center justify-center">{hintsLeft}</span>}
+            </button>
+            <button type="button" onClick={togglePause} title="P" className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
+              {gameState.isPaused ? <Play size={22} className="text-slate-700 dark:text-slate-200" fill="currentColor" /> : <Pause size={22} className="text-slate-700 dark:text-slate-200" fill="currentColor" />}
+              <span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{gameState.isPaused ? t('controls.resume') : t('controls.pause')}</span>
+            </button>
+          </div>
           )}
-        </div>
-      </div>
 
-      {/* Main Controls */}
-      <div className="w-full max-w-lg mt-6 grid grid-cols-5 gap-3">
-        <button type="button" onClick={undo} disabled={!gameState || gameState.history.length === 0} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90 disabled:opacity-30">
-          <Undo size={22} className="text-slate-700 dark:text-slate-200" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">Voltar</span>
-        </button>
-        <button type="button" onClick={() => handleInput(null)} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
-          <Trash2 size={22} className="text-red-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">Apagar</span>
-        </button>
-        <button type="button" onClick={() => setGameState(p => p ? { ...p, noteMode: !p.noteMode } : null)} className={`flex flex-col items-center justify-center gap-1.5 p-4 rounded-2xl shadow-md transition active:scale-90 ${gameState.noteMode ? 'bg-cyan-500 text-white' : 'bg-white dark:bg-slate-800'}`}>
-          <BrainCircuit size={22} className={gameState.noteMode ? 'text-white' : 'text-cyan-500'} /><span className={`text-[9px] uppercase font-black ${gameState.noteMode ? 'text-white/90' : 'text-slate-500 dark:text-slate-400'}`}>Notas</span>
-        </button>
-        <button type="button" onClick={hint} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
-          <Lightbulb size={22} className="text-yellow-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">Dica</span>
-        </button>
-        <button type="button" onClick={() => setGameState(p => p ? { ...p, isPaused: !p.isPaused } : null)} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
-          {gameState.isPaused ? <Play size={22} className="text-slate-700 dark:text-slate-200" fill="currentColor" /> : <Pause size={22} className="text-slate-700 dark:text-slate-200" fill="currentColor" />}
-          <span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{gameState.isPaused ? 'Resumir' : 'Pausar'}</span>
-        </button>
-      </div>
+          {/* Anotações: camada das notas, candidatos automáticos e cores */}
+          {!gameState.focusMode && (
+            <div className="w-full max-w-lg mt-3 flex flex-wrap items-center gap-2">
+              <div className="flex p-1 rounded-xl bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700/50 shadow-sm">
+                {(['center', 'corner'] as NoteLayer[]).map(noteLayer => (
+                  <button key={noteLayer} type="button" onClick={() => setGameState(p => p ? { ...p, noteLayer, noteMode: true } : null)} title={noteLayer === 'corner' ? t('notes.cornerShortcut') : undefined} className={`px-3 py-1.5 rounded-lg text-[10px] uppercase font-black transition ${gameState.noteMode && gameState.noteLayer === noteLayer ? 'bg-accent-500 text-white' : 'text-slate-500 dark:text-slate-400'}`}>
+                    {noteLayer === 'center' ? t('notes.center') : t('notes.corner')}
+                  </button>
+                ))}
+              </div>
+              <button type="button" onClick={fillCandidates} title={t('notes.candidatesTitle')} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700/50 shadow-sm text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 transition active:scale-95">
+                <Wand2 size={14} className="text-accent-500" /> {t('notes.candidates')}
+              </button>
+              <div className="flex-1 flex items-center justify-end gap-1.5">
+                {CELL_COLORS.map((color, k) => (
+                  <button key={color} type="button" onClick={() => colorSelection(k)} title={t('notes.color', { color: k + 1 })} className={`w-6 h-6 rounded-full ${color} transition hover:scale-110 active:scale-90`} />
+                ))}
+                <button type="button" onClick={() => colorSelection(null)} title={t('notes.clearColor')} className="w-6 h-6 flex items-center justify-center rounded-full border border-slate-300 dark:border-slate-600 transition hover:scale-110 active:scale-90">
+                  <X size={12} className="text-slate-400" />
+                </button>
+              </div>
+            </div>
+          )}
 
-      {/* Number Pad */}
-      <div className="w-full max-w-lg mt-6 grid grid-cols-9 gap-2">
-        {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
-          <button key={num} type="button" disabled={completedNumbers.has(num)} onClick={() => handleInput(num)} className={`relative h-14 md:h-18 flex items-center justify-center rounded-2xl font-black text-2xl transition-all shadow-md overflow-hidden border border-slate-100 dark:border-slate-700/50 ${completedNumbers.has(num) ? 'bg-slate-100 dark:bg-slate-800/50 text-slate-300 dark:text-slate-700 opacity-40' : 'bg-white dark:bg-slate-800 text-cyan-600 dark:text-cyan-400 hover:scale-105 active:scale-75'}`}>
-            {num}
-            {completedNumbers.has(num) && <div className="absolute inset-x-0 bottom-0 h-1 bg-green-500/50" />}
-          </button>
-        ))}
+          {/* Number Pad */}
+          <div style={{ gridTemplateColumns: `repeat(${size === 16 ? 8 : size}, minmax(0, 1fr))` }} className="w-full max-w-lg mt-6 grid gap-2">
+            {digits.map(num => (
+              <button key={num} type="button" disabled={completedNumbers.has(num)} onClick={() => handleInput(num)} className={`relative ${size === 16 ? 'h-11 md:h-14' : 'h-14 md:h-18'} flex items-center justify-center rounded-2xl font-black text-2xl transition-all shadow-md overflow-hidden border border-slate-100 dark:border-slate-700/50 ${completedNumbers.has(num) ? 'bg-slate-100 dark:bg-slate-800/50 text-slate-300 dark:text-slate-700 opacity-40' : 'bg-white dark:bg-slate-800 text-accent-600 dark:text-accent-400 hover:scale-105 active:scale-75'}`}>
+                {digitLabel(num)}
+                {completedNumbers.has(num) && <div className="absolute inset-x-0 bottom-0 h-1 bg-success-500/50" />}
+              </button>
+            ))}
+          </div>
+          </>
+        )}
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 };
 
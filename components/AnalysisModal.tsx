@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { GameState } from '../types';
+import { reviewGame, PACE_BUCKET } from '../utils/gameReview';
+import { cellLabel, digitLabel, formatTime } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+import { X, BarChart3, History } from 'lucide-react';
+
+interface AnalysisModalProps {
+  game: GameState;
+  onShowMove: (step: number) => void;
+  onClose: () => void;
+}
+
+// Análise pós-jogo: cada erro com a técnica que teria achado o dígito certo e o ritmo minuto a minuto
+const AnalysisModal: React.FC<AnalysisModalProps> = ({ game, onShowMove, onClose }) => {
+  const i18n = useTranslation();
+  const { t, plural, locale } = i18n;
+  // Reconstrói o tabuleiro de cada erro e roda o resolvedor: só vale a pena uma vez por partida
+  const { mistakes, pace } = useMemo(() => reviewGame(game), [game]);
+  const peak = Math.max(1, ...pace.map(b => b.placed));
+  const placed = pace.reduce((sum, b) => sum + b.placed, 0);
+  const average = game.time > 0 ? (placed * 60) / game.time : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <BarChart3 className="text-accent-500" /> {t('analysis.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section>
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('analysis.pace')}</h3>
+              <span className="text-xs font-bold text-slate-500 dark:text-slate-400">{t('analysis.average', { rate: average.toLocaleString(locale, { maximumFractionDigits: 1 }) })}</span>
+            </div>
+            {/* Minutos sem nenhuma casa certa ficam em âmbar: é onde o jogador travou */}
+            <div role="img" aria-label={t('analysis.pace')} className="flex items-end gap-px h-24 p-2 rounded-2xl bg-slate-50 dark:bg-slate-900/50">
+              {pace.map(bucket => (
+                <div
+                  key={bucket.start}
+                  title={`${formatTime(bucket.start)} • ${plural('analysis.placed', bucket.placed)}${bucket.errors > 0 ? ` • ${plural('analysis.errors', bucket.errors)}` : ''}`}
+                  className="relative flex-1 h-full flex flex-col justify-end"
+                >
+                  {bucket.errors > 0 && <span className="absolute top-0 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-error-500" />}
+                  <div
+                    style={{ height: bucket.placed > 0 ? `${(bucket.placed / peak) * 85}%` : undefined }}
+                    className={`rounded-sm ${bucket.placed > 0 ? 'bg-accent-500' : 'h-1 bg-amber-400'}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] font-mono text-slate-400">
+              <span>{formatTime(0)}</span>
+              <span>{formatTime(Math.max(game.time, PACE_BUCKET))}</span>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{plural('analysis.errors', mistakes.length)}</h3>
+            {mistakes.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">{t('analysis.noMistakes')}</p>
+            ) : (
+              <ol className="space-y-2">
+                {mistakes.map(m => (
+                  <li key={m.step} className="p-3 rounded-2xl bg-slate-50 dark:bg-slate-900/50 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-slate-400">{formatTime(m.time)}</span>
+                      <span className="flex-1 font-bold text-slate-900 dark:text-white">
+                        {t('analysis.entry', { cell: cellLabel(i18n, m.row, m.col), value: digitLabel(m.value), correct: digitLabel(m.correct) })}
+                      </span>
+                      <button type="button" onClick={() => onShowMove(m.step)} aria-label={t('analysis.showMove')} title={t('analysis.showMove')} className="p-1.5 rounded-lg text-slate-400 hover:text-accent-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition">
+                        <History size={14} />
+                      </button>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      {m.technique ? t('analysis.technique', { technique: t(`technique.${m.technique}`) }) : t('analysis.noTechnique')}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisModal;
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Difficulty } from '../types';
+import { bookletPages, BookletEntry, PUZZLES_PER_PAGE, PuzzlesPerPage } from '../utils/booklet';
+import { encodePuzzleCode } from '../utils/puzzleCode';
+import { requestPuzzle, PuzzleRequest } from '../utils/puzzleService';
+import { ratingLabel } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+import { X, Printer, Minus, Plus, Download, Loader2 } from 'lucide-react';
+
+interface BookletModalProps {
+  onClose: () => void;
+}
+
+const MAX_PER_DIFFICULTY = 12;
+
+const BookletModal: React.FC<BookletModalProps> = ({ onClose }) => {
+  const i18n = useTranslation();
+  const { t, plural } = i18n;
+  const [counts, setCounts] = useState<Record<Difficulty, number>>({
+    [Difficulty.EASY]: 2,
+    [Difficulty.MEDIUM]: 2,
+    [Difficulty.HARD]: 0,
+    [Difficulty.EXPERT]: 0,
+  });
+  const [perPage, setPerPage] = useState<PuzzlesPerPage>(4);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [pages, setPages] = useState<string[]>([]);
+  const requestRef = useRef<PuzzleRequest | null>(null);
+  const total = Object.values(Difficulty).reduce((sum, d) => sum + counts[d], 0);
+
+  // Fechar o modal cancela a geração em andamento
+  useEffect(() => () => requestRef.current?.cancel(), []);
+
+  const changeCount = (d: Difficulty, delta: number) => {
+    setCounts(prev => ({ ...prev, [d]: Math.min(MAX_PER_DIFFICULTY, Math.max(0, prev[d] + delta)) }));
+    setPages([]);
+  };
+
+  // Um jogo por vez no worker, na ordem das dificuldades
+  const generate = async () => {
+    const entries: BookletEntry[] = [];
+    const difficulties = Object.values(Difficulty).flatMap(d => Array<Difficulty>(counts[d]).fill(d));
+    setPages([]);
+    for (const d of difficulties) {
+      setProgress(entries.length);
+      const request = requestPuzzle(d);
+      requestRef.current = request;
+      const puzzle = await request.promise;
+      if (!puzzle) return;
+      const code = encodePuzzleCode(d, puzzle.seed);
+      const n = entries.length + 1;
+      entries.push({
+        puzzle,
+        caption: `#${n} • ${t(`difficulty.${d}`)} • ${code} • ${ratingLabel(puzzle.rating, i18n)} • ${t('game.points', { score: puzzle.rating.score })}`,
+        solutionCaption: `#${n} • ${code}`,
+      });
+    }
+    requestRef.current = null;
+    setProgress(null);
+    setPages(bookletPages(entries, perPage, {
+      puzzles: t('booklet.puzzlesTitle'),
+      solutions: t('booklet.solutionsTitle'),
+      page: page => t('booklet.page', { page }),
+    }));
+  };
+
+  const downloadPage = (svg: string, page: number) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `neon-sudoku-${page}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <Printer className="text-accent-500" /> {t('booklet.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <ul className="space-y-2">
+            {Object.values(Difficulty).map(d => (
+              <li key={d} className="flex items-center gap-3">
+                <span className="flex-1 text-sm font-bold text-slate-700 dark:text-slate-200">{t(`difficulty.${d}`)}</span>
+                <button type="button" onClick={() => changeCount(d, -1)} disabled={progress !== null || counts[d] === 0} aria-label={t('booklet.fewer', { difficulty: t(`difficulty.${d}`) })} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-700 transition active:scale-95 disabled:opacity-30">
+                  <Minus size={14} className="text-slate-500" />
+                </button>
+                <span className="w-6 text-center font-mono font-black text-slate-900 dark:text-white">{counts[d]}</span>
+                <button type="button" onClick={() => changeCount(d, 1)} disabled={progress !== null || counts[d] === MAX_PER_DIFFICULTY} aria-label={t('booklet.more', { difficulty: t(`difficulty.${d}`) })} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-700 transition active:scale-95 disabled:opacity-30">
+                  <Plus size={14} className="text-slate-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('booklet.perPage')}</p>
+            <div className="grid grid-cols-3 gap-2">
+              {PUZZLES_PER_PAGE.map(n => (
+                <button key={n} type="button" onClick={() => { setPerPage(n); setPages([]); }} disabled={progress !== null} className={`py-2 rounded-xl text-xs font-bold transition active:scale-95 ${perPage === n ? 'bg-accent-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                  {n}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{t('booklet.solutionsNote')}</p>
+          </div>
+
+          {progress !== null ? (
+            <p className="flex items-center justify-center gap-2 py-3 text-sm font-bold text-slate-500 dark:text-slate-400">
+              <Loader2 size={16} className="animate-spin text-accent-500" /> {t('booklet.generating', { current: progress + 1, total })}
+            </p>
+          ) : (
+            <button type="button" onClick={generate} disabled={total === 0} className="w-full py-3 rounded-xl bg-accent-500 font-bold text-white transition active:scale-95 disabled:opacity-40">
+              {t('booklet.generate')}
+            </button>
+          )}
+
+          {pages.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{plural('booklet.pages', pages.length)}</p>
+                <button type="button" onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-black uppercase transition active:scale-95">
+                  <Printer size={14} /> {t('booklet.print')}
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {pages.map((svg, k) => (
+                  <div key={k} className="relative rounded-lg overflow-hidden border border-slate-200 dark:border-slate-700">
+                    <div className="[&>svg]:w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} />
+                    <button type="button" onClick={() => downloadPage(svg, k + 1)} title={t('booklet.download', { page: k + 1 })} className="absolute bottom-1 right-1 p-1.5 rounded-lg bg-accent-500 text-white shadow transition active:scale-95">
+                      <Download size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Só estas páginas vão para o papel (ver a folha de impressão no index.html) */}
+      {createPortal(
+        <div className="print-booklet">
+          {pages.map((svg, k) => <div key={k} dangerouslySetInnerHTML={{ __html: svg }} />)}
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default BookletModal;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { digitLabel } from '../utils/format';
+
+// Paleta de destaque para técnicas de coloração (índice salvo em CellData.color)
+export const CELL_COLORS = ['bg-red-400', 'bg-orange-400', 'bg-yellow-300', 'bg-green-400', 'bg-cyan-400', 'bg-blue-500', 'bg-violet-500', 'bg-pink-400'];
+
+// Cantos primeiro, depois o meio das bordas, como nas marcações de Snyder
+const CORNER_SLOTS = [
+  'top-0.5 left-1', 'top-0.5 right-1', 'bottom-0.5 left-1', 'bottom-0.5 right-1',
+  'top-0.5 left-1/2 -translate-x-1/2', 'bottom-0.5 left-1/2 -translate-x-1/2', 'top-1/2 left-1 -translate-y-1/2', 'top-1/2 right-1 -translate-y-1/2'
+];
+
+interface CellMarksProps {
+  notes: Set<number>;
+  cornerNotes: Set<number>;
+  size: number;
+  eliminated?: Set<number>; // Candidatos riscados pela dica
+  selected?: boolean;
+  inCage?: boolean; // O canto superior esquerdo fica para a soma da gaiola
+  compact?: boolean;
+}
+
+const CellMarks: React.FC<CellMarksProps> = ({ notes, cornerNotes, size, eliminated, selected, inCage, compact }) => {
+  const center = [...new Set([...notes, ...(eliminated ?? [])])].sort((a, b) => a - b);
+  const corner = [...cornerNotes].sort((a, b) => a - b);
+  const slots = inCage ? CORNER_SLOTS.slice(1) : CORNER_SLOTS;
+  const fontClass = compact || size === 16 ? 'text-[5px] md:text-[7px]' : 'text-[8px] md:text-[10px]';
+  const colorClass = selected ? 'text-white/80' : 'text-slate-400 dark:text-slate-500';
+
+  return (
+    <div className={`absolute inset-0 pointer-events-none font-black leading-none ${fontClass} ${colorClass}`}>
+      {corner.slice(0, slots.length).map((n, k) => (
+        <span key={n} className={`absolute ${slots[k]}`}>{digitLabel(n)}</span>
+      ))}
+      {center.length > 0 && (
+        <div className={`absolute inset-0 flex flex-wrap items-center justify-center content-center ${compact ? 'px-0.5' : 'px-2'}`}>
+          {center.map(n => (
+            <span key={n} className={eliminated?.has(n) ? 'text-error-500 line-through' : selected ? 'text-white' : 'text-slate-500 dark:text-slate-400'}>{digitLabel(n)}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CellMarks;
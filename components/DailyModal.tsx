@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { DailyResult, Difficulty } from '../types';
+import { dailyStreak, dateKey, findDailyResult, parseDateKey } from '../utils/daily';
+import { formatTime } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+import { X, CalendarDays, ChevronLeft, ChevronRight, Flame, Trophy, Lock, Play } from 'lucide-react';
+
+interface DailyModalProps {
+  results: DailyResult[];
+  onPlay: (difficulty: Difficulty) => void;
+  onClose: () => void;
+}
+
+// 7 de janeiro de 2024 foi um domingo: base para os nomes dos dias da semana
+const WEEKDAYS = Array.from({ length: 7 }, (_, i) => new Date(2024, 0, 7 + i));
+
+const DailyModal: React.FC<DailyModalProps> = ({ results, onPlay, onClose }) => {
+  const { t, plural, locale } = useTranslation();
+  const today = dateKey();
+  const [selectedDay, setSelectedDay] = useState(today);
+  // Primeiro dia do mês exibido
+  const [month, setMonth] = useState(() => {
+    const date = parseDateKey(today);
+    return new Date(date.getFullYear(), date.getMonth(), 1, 12);
+  });
+  const streak = dailyStreak(results, today);
+
+  const shiftMonth = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1, 12));
+  const isCurrentMonth = dateKey(month).slice(0, 7) === today.slice(0, 7);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const days = Array.from({ length: daysInMonth }, (_, i) => dateKey(new Date(month.getFullYear(), month.getMonth(), i + 1, 12)));
+
+  const dayStyle = (day: string) => {
+    const played = results.filter(r => r.date === day && r.finished);
+    if (played.some(r => r.won)) return 'bg-success-500 text-white';
+    if (played.length > 0) return 'bg-error-500/20 text-error-600 dark:text-error-400';
+    return day > today ? 'text-slate-300 dark:text-slate-600' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700';
+  };
+
+  const statusOf = (result: DailyResult | undefined) => {
+    if (!result) return t('daily.notPlayed');
+    if (!result.finished) return t('daily.inProgress');
+    return result.won ? t('daily.won', { time: formatTime(result.time) }) : t('daily.lost');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <CalendarDays className="text-accent-500" /> {t('daily.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3 text-center">
+            <div className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-900">
+              <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 flex items-center justify-center gap-1"><Flame size={10} className="text-orange-500" /> {t('stats.streak')}</p>
+              <p className="text-xl font-black text-slate-900 dark:text-white">{plural('daily.streakDays', streak.current)}</p>
+            </div>
+            <div className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-900">
+              <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 flex items-center justify-center gap-1"><Trophy size={10} className="text-yellow-500" /> {t('stats.longestStreak')}</p>
+              <p className="text-xl font-black text-slate-900 dark:text-white">{plural('daily.streakDays', streak.longest)}</p>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <button type="button" onClick={() => shiftMonth(-1)} aria-label={t('daily.previousMonth')} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+                <ChevronLeft size={18} className="text-slate-500" />
+              </button>
+              <p className="text-sm font-black capitalize text-slate-900 dark:text-white">{month.toLocaleDateString(locale, { month: 'long', year: 'numeric' })}</p>
+              <button type="button" onClick={() => shiftMonth(1)} disabled={isCurrentMonth} aria-label={t('daily.nextMonth')} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition disabled:opacity-30">
+                <ChevronRight size={18} className="text-slate-500" />
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center">
+              {WEEKDAYS.map(day => (
+                <span key={day.getDay()} className="text-[10px] uppercase font-black text-slate-400">{day.toLocaleDateString(locale, { weekday: 'narrow' })}</span>
+              ))}
+              {days.map((day, i) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => setSelectedDay(day)}
+                  disabled={day > today}
+                  aria-pressed={day === selectedDay}
+                  style={i === 0 ? { gridColumnStart: month.getDay() + 1 } : undefined}
+                  className={`aspect-square rounded-lg text-xs font-bold transition ${dayStyle(day)} ${day === selectedDay ? 'ring-2 ring-accent-500' : day === today ? 'ring-1 ring-accent-500/50' : ''}`}
+                >
+                  {Number(day.slice(8))}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">
+              {selectedDay === today ? t('daily.today') : parseDateKey(selectedDay).toLocaleDateString(locale)}
+            </p>
+            <ul className="space-y-1">
+              {Object.values(Difficulty).map(d => {
+                const result = findDailyResult(results, selectedDay, d);
+                return (
+                  <li key={d} className="flex items-center gap-2 text-xs p-2 rounded-xl bg-slate-50 dark:bg-slate-900/60">
+                    <span className={`w-2 h-2 rounded-full ${!result?.finished ? 'bg-slate-300 dark:bg-slate-600' : result.won ? 'bg-success-500' : 'bg-error-500'}`} />
+                    <span className="font-bold text-slate-700 dark:text-slate-200">{t(`difficulty.${d}`)}</span>
+                    <span className="flex-1 text-slate-400">{statusOf(result)}</span>
+                    {selectedDay === today && (result?.finished ? (
+                      <span title={t('daily.locked')}><Lock size={14} className="text-slate-400" /></span>
+                    ) : (
+                      <button type="button" onClick={() => onPlay(d)} className="flex items-center gap-1 px-3 py-1 rounded-lg bg-accent-500 text-white text-[10px] uppercase font-black transition active:scale-95">
+                        <Play size={10} fill="currentColor" /> {result ? t('save.continue') : t('daily.play')}
+                      </button>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+            {selectedDay !== today && <p className="text-xs text-slate-400 mt-2">{t('daily.onlyToday')}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyModal;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { LeaderboardEntry } from '../types';
+import { formatTime } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+
+interface LeaderboardListProps {
+  entries: LeaderboardEntry[];
+  highlightId: string | null;
+}
+
+// Top 10 de uma dificuldade, com a partida que acabou de terminar destacada
+const LeaderboardList: React.FC<LeaderboardListProps> = ({ entries, highlightId }) => {
+  const { t, locale } = useTranslation();
+  return (
+    <ol className="w-full max-w-xs space-y-0.5 text-xs">
+      {entries.map((entry, k) => (
+        <li key={entry.gameId} aria-current={entry.gameId === highlightId ? 'true' : undefined} className={`flex items-center gap-2 px-3 py-1 rounded-lg ${entry.gameId === highlightId ? 'bg-white text-accent-600 font-black' : 'bg-black/10'}`}>
+          <span className="w-5 text-left font-black">{k + 1}</span>
+          <span className="flex-1 text-left font-mono font-bold">{t('game.points', { score: entry.score.toLocaleString(locale) })}</span>
+          <span className="font-mono opacity-80">{formatTime(entry.time)}</span>
+          <span className="w-16 text-right opacity-80">{new Date(entry.date).toLocaleDateString(locale)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default LeaderboardList;
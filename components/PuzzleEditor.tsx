@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CellDigit } from '../types';
+import { ImportedPuzzle } from '../utils/puzzleFormats';
+import { analyzeGrid, lockGivens, suggestClue } from '../utils/puzzleEditor';
+import { cellLabel, digitLabel } from '../utils/format';
+import { errorMessage } from '../utils/i18n';
+import { useTranslation } from '../utils/useTranslation';
+import { PencilLine, Trash2, Eraser, Sparkles, Play, X, AlertTriangle } from 'lucide-react';
+
+interface PuzzleEditorProps {
+  onPlay: (puzzle: ImportedPuzzle) => void;
+  onClose: () => void;
+}
+
+const SIZE = 9;
+const DIGITS = Array.from({ length: SIZE }, (_, i) => i + 1);
+const emptyGrid = () => Array.from({ length: SIZE }, () => Array<number | null>(SIZE).fill(null));
+
+const STATUS_STYLES = {
+  none: 'bg-error-500/10 border-error-500/30 text-error-600 dark:text-error-400',
+  unique: 'bg-success-500/10 border-success-500/30 text-success-600 dark:text-success-400',
+  multiple: 'bg-amber-500/10 border-amber-500/30 text-amber-600 dark:text-amber-400',
+  unknown: 'bg-slate-500/10 border-slate-500/30 text-slate-600 dark:text-slate-400',
+};
+
+// Editor no lugar do tabuleiro: o jogador digita os números de um jogo de jornal ou livro
+const PuzzleEditor: React.FC<PuzzleEditorProps> = ({ onPlay, onClose }) => {
+  const i18n = useTranslation();
+  const { t, plural } = i18n;
+  const [grid, setGrid] = useState(emptyGrid);
+  const [selected, setSelected] = useState<[number, number]>([0, 0]);
+  const [suggestion, setSuggestion] = useState<{ clue: CellDigit; unique: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const analysis = useMemo(() => analyzeGrid(grid), [grid]);
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  const setCell = (value: number | null) => {
+    const [r, c] = selected;
+    setGrid(prev => prev.map((row, rr) => (rr === r ? row.map((v, cc) => (cc === c ? value : v)) : row)));
+    setSuggestion(null);
+    setError(null);
+  };
+
+  const addClue = () => {
+    const found = suggestClue(grid);
+    if (!found) return;
+    const { row, col, value } = found.clue;
+    setGrid(prev => prev.map((line, r) => (r === row ? line.map((v, c) => (c === col ? value : v)) : line)));
+    setSelected([row, col]);
+    setSuggestion(found);
+  };
+
+  const play = () => {
+    try {
+      onPlay(lockGivens(grid));
+    } catch (err) {
+      setError(errorMessage(err, i18n));
+    }
+  };
+
+  // Os atalhos do jogo ficam desligados enquanto o editor está aberto. Recriado a cada
+  // render, como no App, para ver a seleção atual sem registrar o listener de novo
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const [r, c] = selected;
+    const move = ({ ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] } as Record<string, [number, number]>)[e.key];
+    const digit = /^(?:Digit|Numpad)([1-9])$/.exec(e.code)?.[1];
+    if (move) setSelected([(r + move[0] + SIZE) % SIZE, (c + move[1] + SIZE) % SIZE]);
+    else if (digit) setCell(Number(digit));
+    else if (e.key === 'Backspace' || e.key === 'Delete' || e.key === '0') setCell(null);
+    else if (e.key === 'Escape') onClose();
+    else return;
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const status = analysis.conflicts.size > 0
+    ? plural('editor.conflicts', analysis.conflicts.size)
+    : t(`editor.${analysis.solutions}`);
+
+  return (
+    <>
+      <div className="w-full max-w-lg mb-4 flex items-center gap-2">
+        <h2 className="flex-1 text-sm uppercase font-black flex items-center gap-2 text-slate-900 dark:text-white">
+          <PencilLine size={18} className="text-accent-500" /> {t('editor.title')}
+        </h2>
+        <span className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{plural('editor.givens', analysis.givens)}</span>
+        <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+          <X size={18} className="text-slate-500" />
+        </button>
+      </div>
+
+      <div role="status" className={`w-full max-w-lg mb-4 p-3 rounded-2xl border flex items-center gap-2 text-sm font-bold ${STATUS_STYLES[analysis.solutions]}`}>
+        {status}
+        {suggestion && (
+          <span className="font-normal">
+            {t(suggestion.unique ? 'editor.clueUnique' : 'editor.clueNotEnough', { digit: digitLabel(suggestion.clue.value), cell: cellLabel(i18n, suggestion.clue.row, suggestion.clue.col) })}
+          </span>
+        )}
+      </div>
+
+      <div role="grid" aria-label={t('editor.title')} className="w-full max-w-lg sudoku-grid grid grid-cols-9 bg-white dark:bg-slate-800 rounded-3xl shadow-2xl overflow-hidden border-4 border-slate-200 dark:border-slate-700 select-none">
+        {grid.map((row, r) => row.map((value, c) => {
+          const i = r * SIZE + c;
+          const isSel = selected[0] === r && selected[1] === c;
+          const isConflict = analysis.conflicts.has(i);
+          const isClue = suggestion?.clue.row === r && suggestion.clue.col === c;
+          return (
+            <div
+              key={i}
+              role="gridcell"
+              aria-selected={isSel}
+              aria-label={`${cellLabel(i18n, r, c)}, ${value ? digitLabel(value) : t('cell.empty')}${isConflict ? `, ${t('cell.error')}` : ''}`}
+              onPointerDown={() => setSelected([r, c])}
+              className={`relative flex items-center justify-center cursor-pointer border-[0.5px] border-slate-200 dark:border-slate-700 text-xl md:text-3xl font-bold transition-all duration-150 ${r % 3 === 2 && r < SIZE - 1 ? 'border-b-2 md:border-b-4 border-b-slate-400 dark:border-b-slate-600' : ''} ${c % 3 === 2 && c < SIZE - 1 ? 'border-r-2 md:border-r-4 border-r-slate-400 dark:border-r-slate-600' : ''} ${isSel ? 'bg-accent-500 text-white z-10' : isClue ? 'bg-amber-300/70 dark:bg-amber-500/40' : ''} ${isConflict && !isSel ? 'text-error-500 dark:text-error-400' : !isSel ? 'text-slate-900 dark:text-white' : ''}`}
+            >
+              {value ? digitLabel(value) : ''}
+            </div>
+          );
+        }))}
+      </div>
+
+      {error && (
+        <p className="w-full max-w-lg mt-4 flex items-start gap-2 text-xs text-error-500"><AlertTriangle size={14} className="shrink-0" /> {error}</p>
+      )}
+
+      <div className="w-full max-w-lg mt-6 grid grid-cols-4 gap-2">
+        <button type="button" onClick={() => setCell(null)} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
+          <Eraser size={22} className="text-error-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('controls.erase')}</span>
+        </button>
+        <button type="button" onClick={() => { setGrid(emptyGrid()); setSuggestion(null); setError(null); }} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90">
+          <Trash2 size={22} className="text-slate-700 dark:text-slate-200" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('editor.clear')}</span>
+        </button>
+        <button type="button" onClick={addClue} disabled={analysis.solutions !== 'multiple'} title={t('editor.suggestTitle')} className="flex flex-col items-center justify-center gap-1.5 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700/50 hover:bg-slate-50 dark:hover:bg-slate-700 transition active:scale-90 disabled:opacity-30">
+          <Sparkles size={22} className="text-amber-500" /><span className="text-[9px] uppercase font-black text-slate-500 dark:text-slate-400">{t('editor.suggest')}</span>
+        </button>
+        <button type="button" onClick={play} disabled={analysis.solutions !== 'unique'} className="flex flex-col items-center justify-center gap-1.5 p-4 rounded-2xl shadow-md bg-accent-500 text-white transition active:scale-90 disabled:opacity-30">
+          <Play size={22} fill="currentColor" /><span className="text-[9px] uppercase font-black text-white/90">{t('editor.play')}</span>
+        </button>
+      </div>
+
+      <div className="w-full max-w-lg mt-6 grid grid-cols-9 gap-2">
+        {DIGITS.map(num => (
+          <button key={num} type="button" onClick={() => setCell(num)} className="h-14 md:h-18 flex items-center justify-center rounded-2xl font-black text-2xl transition-all shadow-md border border-slate-100 dark:border-slate-700/50 bg-white dark:bg-slate-800 text-accent-600 dark:text-accent-400 hover:scale-105 active:scale-75">
+            {num}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default PuzzleEditor;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CellData, Variant, VariantLayout } from '../types';
+import { importPuzzle, exportPuzzle, ImportedPuzzle, PuzzleFormat, PUZZLE_FORMATS } from '../utils/puzzleFormats';
+import { errorMessage } from '../utils/i18n';
+import { useTranslation } from '../utils/useTranslation';
+import { X, FileUp, FileDown, Copy, Check, AlertTriangle } from 'lucide-react';
+
+interface PuzzleTransferModalProps {
+  board: CellData[][];
+  layout: VariantLayout;
+  time: number;
+  errors: number;
+  onImport: (puzzle: ImportedPuzzle) => void;
+  onClose: () => void;
+}
+
+const PuzzleTransferModal: React.FC<PuzzleTransferModalProps> = ({ board, layout, time, errors, onImport, onClose }) => {
+  const i18n = useTranslation();
+  const { t } = i18n;
+  const [tab, setTab] = useState<'import' | 'export'>('import');
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [format, setFormat] = useState<PuzzleFormat>('line');
+  const [includeEntries, setIncludeEntries] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  // Os formatos de troca só descrevem a grade clássica 9x9: regiões, gaiolas e regras das variantes se perderiam
+  const exportable = layout.variant === Variant.CLASSIC && layout.size === 9;
+  const exported = exportable ? exportPuzzle(board, format, includeEntries, { time, errors }) : '';
+
+  const handleImport = () => {
+    try {
+      onImport(importPuzzle(importText));
+    } catch (err) {
+      setImportError(errorMessage(err, i18n));
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setImportText(text);
+      setImportError(null);
+    });
+  };
+
+  const copyExport = () => {
+    navigator.clipboard?.writeText(exported).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  const downloadExport = () => {
+    const extension = PUZZLE_FORMATS.find(f => f.id === format)!.extension;
+    const url = URL.createObjectURL(new Blob([exported], { type: format === 'json' ? 'application/json' : 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `neon-sudoku.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-2 rounded-xl text-xs uppercase font-black transition ${active ? 'bg-accent-500 text-white' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            {tab === 'import' ? <FileUp className="text-accent-500" /> : <FileDown className="text-accent-500" />} {t('transfer.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setTab('import')} className={tabClass(tab === 'import')}>{t('common.import')}</button>
+            <button type="button" onClick={() => setTab('export')} className={tabClass(tab === 'export')}>{t('common.export')}</button>
+          </div>
+
+          {tab === 'import' ? (
+            <>
+              <textarea
+                value={importText}
+                onChange={e => { setImportText(e.target.value); setImportError(null); }}
+                placeholder={t('transfer.placeholder')}
+                rows={7}
+                className="w-full p-3 rounded-xl font-mono text-xs bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white border border-transparent outline-none focus:border-accent-500 resize-none"
+              />
+              <input type="file" accept=".txt,.sdk,.ss,.json" onChange={handleFile} className="w-full text-xs text-slate-500 dark:text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-100 dark:file:bg-slate-700 file:font-bold file:text-slate-600 dark:file:text-slate-300" />
+              {importError && (
+                <p className="flex items-start gap-2 text-xs text-error-500"><AlertTriangle size={14} className="shrink-0" /> {importError}</p>
+              )}
+              <button type="button" onClick={handleImport} disabled={!importText.trim()} className="w-full py-3 rounded-xl bg-accent-500 font-bold text-white transition active:scale-95 disabled:opacity-40">
+                {t('transfer.importAndPlay')}
+              </button>
+            </>
+          ) : !exportable ? (
+            <p className="flex items-start gap-2 text-sm text-slate-500 dark:text-slate-400"><AlertTriangle size={16} className="shrink-0 text-amber-500" /> {t('transfer.onlyClassic')}</p>
+          ) : (
+            <>
+              <select value={format} onChange={e => setFormat(e.target.value as PuzzleFormat)} className="w-full p-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white text-sm font-bold outline-none">
+                {PUZZLE_FORMATS.map(f => <option key={f.id} value={f.id}>{t(`format.${f.id}`)}</option>)}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={includeEntries} onChange={e => setIncludeEntries(e.target.checked)} className="accent-accent-500" />
+                {t('transfer.includeEntries')}
+              </label>
+              <textarea readOnly value={exported} rows={7} className="w-full p-3 rounded-xl font-mono text-xs bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white outline-none resize-none" />
+              <div className="grid grid-cols-2 gap-3">
+                <button type="button" onClick={copyExport} className="py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300 flex items-center justify-center gap-2">
+                  {copied ? <Check size={16} className="text-success-500" /> : <Copy size={16} />} {t('transfer.copy')}
+                </button>
+                <button type="button" onClick={downloadExport} className="py-3 rounded-xl bg-accent-500 font-bold text-white flex items-center justify-center gap-2">
+                  <FileDown size={16} /> {t('transfer.download')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleTransferModal;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Difficulty, RaceState } from '../types';
+import { RaceConnectionStatus } from '../utils/raceClient';
+import { loadRaceJoin } from '../utils/useRace';
+import { errorMessage } from '../utils/i18n';
+import { formatTime } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+import { X, Swords, LogOut, Play, WifiOff, Crown, Loader2, AlertTriangle } from 'lucide-react';
+
+interface RaceModalProps {
+  status: RaceConnectionStatus | null;
+  race: RaceState | null;
+  playerId: string | null;
+  onJoin: (url: string, room: string, name: string) => void;
+  onStart: (difficulty: Difficulty) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const RaceModal: React.FC<RaceModalProps> = ({ status, race, playerId, onJoin, onStart, onLeave, onClose }) => {
+  const i18n = useTranslation();
+  const { t } = i18n;
+  const [form, setForm] = useState(loadRaceJoin);
+  const [difficulty, setDifficulty] = useState<Difficulty>(race?.difficulty ?? Difficulty.EASY);
+  const [error, setError] = useState<string | null>(null);
+  const winner = race?.players.find(p => p.id === race.winner);
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onJoin(form.url, form.room, form.name);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, i18n));
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white border border-transparent outline-none focus:border-accent-500';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <Swords className="text-accent-500" /> {t('race.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        {status === null || status === 'rejected' ? (
+          <form onSubmit={join} className="p-6 space-y-3 overflow-y-auto">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('race.relayHint')} <code className="font-mono">npm run race</code></p>
+            <label className="block">
+              <span className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('race.server')}</span>
+              <input value={form.url} onChange={e => setForm({ ...form, url: e.target.value })} className={`${inputClass} mt-1 font-mono text-sm`} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('race.room')}</span>
+                <input value={form.room} onChange={e => setForm({ ...form, room: e.target.value.toUpperCase() })} maxLength={12} placeholder="NEON" className={`${inputClass} mt-1 font-mono uppercase`} />
+              </label>
+              <label className="block">
+                <span className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('race.name')}</span>
+                <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} maxLength={20} className={`${inputClass} mt-1`} />
+              </label>
+            </div>
+            {(error || status === 'rejected') && (
+              <p className="flex items-start gap-2 text-xs text-error-500"><AlertTriangle size={14} className="shrink-0" /> {error ?? t('race.rejected')}</p>
+            )}
+            <button type="submit" disabled={!form.room.trim() || !form.url.trim()} className="w-full py-3 rounded-xl bg-accent-500 font-bold text-white transition active:scale-95 disabled:opacity-40">
+              {t('race.join')}
+            </button>
+          </form>
+        ) : (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-black text-slate-900 dark:text-white">{t('race.roomCode', { room: race?.room ?? form.room })}</p>
+              {status !== 'connected' && (
+                <span className="flex items-center gap-1 text-xs font-bold text-amber-500"><Loader2 size={12} className="animate-spin" /> {t(`race.${status}`)}</span>
+              )}
+            </div>
+
+            <ul className="space-y-1">
+              {race?.players.map(p => (
+                <li key={p.id} className="flex items-center gap-2 text-xs p-2 rounded-xl bg-slate-50 dark:bg-slate-900/60">
+                  {p.id === race.winner ? <Crown size={14} className="text-yellow-500" /> : <span className={`w-2 h-2 mx-[3px] rounded-full ${p.connected ? 'bg-success-500' : 'bg-slate-300 dark:bg-slate-600'}`} />}
+                  <span className="flex-1 font-bold text-slate-700 dark:text-slate-200">{p.name}{p.id === playerId ? ` (${t('race.you')})` : ''}</span>
+                  {!p.connected && <WifiOff size={12} className="text-slate-400" />}
+                  {race.status !== 'lobby' && <span className="text-slate-400">{p.finishTime !== null ? formatTime(p.finishTime) : p.out ? t('race.out') : `${p.progress}%`}</span>}
+                </li>
+              ))}
+            </ul>
+
+            {race?.status === 'finished' && (
+              <p className="text-sm font-bold text-center text-slate-700 dark:text-slate-200">
+                {winner ? t('race.wonBy', { name: winner.id === playerId ? t('race.you') : winner.name }) : t('race.noWinner')}
+              </p>
+            )}
+
+            {race?.status === 'running' ? (
+              <p className="text-xs text-center text-slate-500 dark:text-slate-400">{t('race.running', { difficulty: t(`difficulty.${race.difficulty}`) })}</p>
+            ) : (
+              <div>
+                <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('race.difficulty')}</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {Object.values(Difficulty).map(d => (
+                    <button key={d} type="button" onClick={() => setDifficulty(d)} className={`py-2 rounded-xl text-xs font-bold transition active:scale-95 ${difficulty === d ? 'bg-accent-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                      {t(`difficulty.${d}`)}
+                    </button>
+                  ))}
+                </div>
+                <button type="button" onClick={() => onStart(difficulty)} disabled={status !== 'connected'} className="w-full mt-3 py-3 rounded-xl bg-accent-500 font-bold text-white flex items-center justify-center gap-2 transition active:scale-95 disabled:opacity-40">
+                  <Play size={16} fill="currentColor" /> {race?.status === 'finished' ? t('race.rematch') : t('race.start')}
+                </button>
+              </div>
+            )}
+
+            <button type="button" onClick={onLeave} className="w-full py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300 flex items-center justify-center gap-2 transition active:scale-95">
+              <LogOut size={16} /> {t('race.leave')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RaceModal;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { RaceState } from '../types';
+import { RaceConnectionStatus } from '../utils/raceClient';
+import { formatTime } from '../utils/format';
+import { useTranslation } from '../utils/useTranslation';
+import { Swords, WifiOff, Crown, Loader2 } from 'lucide-react';
+
+interface RaceProgressProps {
+  race: RaceState;
+  playerId: string | null;
+  status: RaceConnectionStatus | null;
+  onOpen: () => void;
+}
+
+// Barras de progresso dos adversários acima do tabuleiro: só a porcentagem, nunca os dígitos
+const RaceProgress: React.FC<RaceProgressProps> = ({ race, playerId, status, onOpen }) => {
+  const { t } = useTranslation();
+  const opponents = race.players.filter(p => p.id !== playerId);
+
+  return (
+    <div className="w-full max-w-lg mb-4 p-3 rounded-2xl bg-white dark:bg-slate-800 shadow-sm border border-slate-100 dark:border-slate-700/50 space-y-2">
+      <button type="button" onClick={onOpen} className="w-full flex items-center gap-2 text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">
+        <Swords size={12} className="text-accent-500" /> {t('race.roomCode', { room: race.room })}
+        {status !== 'connected' && (
+          <span className="ml-auto flex items-center gap-1 text-amber-500"><Loader2 size={10} className="animate-spin" /> {t('race.reconnecting')}</span>
+        )}
+      </button>
+      {race.status === 'lobby' && <p className="text-xs text-slate-400">{t('race.waiting')}</p>}
+      {race.status !== 'lobby' && opponents.length === 0 && <p className="text-xs text-slate-400">{t('race.alone')}</p>}
+      {race.status !== 'lobby' && opponents.map(p => (
+        <div key={p.id} className={`flex items-center gap-2 text-xs ${p.connected ? '' : 'opacity-50'}`}>
+          <span className="w-20 truncate font-bold text-slate-700 dark:text-slate-200">{p.name}</span>
+          <div role="progressbar" aria-label={p.name} aria-valuemin={0} aria-valuemax={100} aria-valuenow={p.progress} className="flex-1 h-2 rounded-full bg-slate-100 dark:bg-slate-900 overflow-hidden">
+            <div className={`h-full rounded-full transition-all duration-500 ${p.out ? 'bg-error-500' : p.finishTime !== null ? 'bg-success-500' : 'bg-accent-500'}`} style={{ width: `${p.progress}%` }} />
+          </div>
+          <span className="w-16 flex items-center justify-end gap-1 font-mono text-slate-500 dark:text-slate-400">
+            {!p.connected && <WifiOff size={10} />}
+            {p.id === race.winner && <Crown size={10} className="text-yellow-500" />}
+            {p.finishTime !== null ? formatTime(p.finishTime) : p.out ? t('race.out') : `${p.errors}/${p.maxErrors || '-'}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RaceProgress;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CellData, GameAction, VariantLayout } from '../types';
+import { replayActions } from '../utils/gameActions';
+import { cellLabel, digitLabel, formatTime } from '../utils/format';
+import CellMarks, { CELL_COLORS } from './CellMarks';
+import { Translator } from '../utils/i18n';
+import { useTranslation } from '../utils/useTranslation';
+import { X, History, SkipBack, SkipForward, ChevronLeft, ChevronRight, Play, Pause } from 'lucide-react';
+
+interface ReplayViewerProps {
+  initialBoard: CellData[][];
+  layout: VariantLayout;
+  actions: GameAction[];
+  initialStep?: number; // Abre já posicionado nesta jogada
+  onClose: () => void;
+}
+
+const describeAction = (action: GameAction, i18n: Translator) => {
+  const { t, plural } = i18n;
+  const cells = (list: [number, number][]) => list.map(([r, c]) => cellLabel(i18n, r, c)).join(', ');
+  switch (action.type) {
+    case 'place': return `${cellLabel(i18n, action.row, action.col)} = ${digitLabel(action.value)}${action.error ? ' ✗' : ''}`;
+    case 'note': return t(action.layer === 'corner' ? 'replay.cornerNote' : 'replay.note', { cells: cells(action.cells), digit: digitLabel(action.value) });
+    case 'erase': return plural('replay.erase', action.cells.length, { cells: cells(action.cells) });
+    case 'hint': return action.placement
+      ? t('replay.hint', { cell: cellLabel(i18n, action.placement.row, action.placement.col), digit: digitLabel(action.placement.value) })
+      : t('replay.hintNotes', { cells: cells(action.notes.map(n => [n.row, n.col])) });
+    case 'check': return plural('replay.check', action.cells.length);
+    case 'candidates': return t('replay.candidates');
+    case 'color': return t(action.color === null ? 'replay.uncolor' : 'replay.color', { cells: cells(action.cells) });
+  }
+};
+
+const actionCell = (action: GameAction): [number, number] | null => {
+  switch (action.type) {
+    case 'place': return [action.row, action.col];
+    case 'hint': return action.placement ? [action.placement.row, action.placement.col] : null;
+    case 'note': case 'erase': case 'color': return action.cells[0];
+    default: return null;
+  }
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ initialBoard, layout, actions, initialStep = 0, onClose }) => {
+  const i18n = useTranslation();
+  const { t } = i18n;
+  const [step, setStep] = useState(initialStep);
+  const [playing, setPlaying] = useState(false);
+
+  const board = useMemo(() => replayActions(initialBoard, actions.slice(0, step), layout), [initialBoard, layout, actions, step]);
+  const current = step > 0 ? actions[step - 1] : null;
+  const highlighted = current ? actionCell(current) : null;
+  const { size } = layout;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= actions.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), 600);
+    return () => clearTimeout(timer);
+  }, [playing, step, actions.length]);
+
+  const go = (target: number) => {
+    setPlaying(false);
+    setStep(Math.max(0, Math.min(actions.length, target)));
+  };
+
+  const controlClass = 'p-2 rounded-xl bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 transition active:scale-90 disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[95vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <History className="text-accent-500" /> {t('replay.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }} className="grid aspect-square rounded-2xl overflow-hidden border-2 border-slate-200 dark:border-slate-700">
+            {board.map((row, r) => row.map((cell, c) => {
+              const isCurrent = highlighted?.[0] === r && highlighted?.[1] === c;
+              const i = r * size + c;
+              const regionEndsBelow = r < size - 1 && layout.regions[i] !== layout.regions[i + size];
+              const regionEndsRight = c < size - 1 && layout.regions[i] !== layout.regions[i + 1];
+              return (
+                <div key={`${r}-${c}`} className={`relative flex items-center justify-center ${size === 16 ? 'text-[9px]' : 'text-sm'} font-bold border-[0.5px] border-slate-200 dark:border-slate-700 ${regionEndsBelow ? 'border-b-2 border-b-slate-400 dark:border-b-slate-600' : ''} ${regionEndsRight ? 'border-r-2 border-r-slate-400 dark:border-r-slate-600' : ''} ${isCurrent ? 'bg-accent-500/30' : ''}`}>
+                  {cell.color !== null && <div className={`absolute inset-0 opacity-30 ${CELL_COLORS[cell.color]}`} />}
+                  {cell.value ? (
+                    <span className={`relative ${cell.error ? 'text-error-500 underline decoration-wavy underline-offset-2' : cell.fixed ? 'text-slate-900 dark:text-white' : 'text-entry-600 dark:text-entry-400'}`}>{digitLabel(cell.value)}</span>
+                  ) : (
+                    <CellMarks notes={cell.notes} cornerNotes={cell.cornerNotes} size={size} compact />
+                  )}
+                </div>
+              );
+            }))}
+          </div>
+
+          <div className="text-center">
+            <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">
+              {t('replay.step', { step, total: actions.length })}{current ? ` • ${formatTime(current.time)}` : ''}
+            </p>
+            <p className="text-sm font-bold text-slate-900 dark:text-white h-5">{current ? describeAction(current, i18n) : t('replay.start')}</p>
+          </div>
+
+          <input type="range" min={0} max={actions.length} value={step} onChange={e => go(Number(e.target.value))} className="w-full accent-accent-500" />
+
+          <div className="flex justify-center gap-2">
+            <button type="button" onClick={() => go(0)} disabled={step === 0} className={controlClass}><SkipBack size={18} /></button>
+            <button type="button" onClick={() => go(step - 1)} disabled={step === 0} className={controlClass}><ChevronLeft size={18} /></button>
+            <button type="button" onClick={() => { if (step >= actions.length) setStep(0); setPlaying(p => !p); }} disabled={actions.length === 0} className="p-2 rounded-xl bg-accent-500 text-white transition active:scale-90 disabled:opacity-30">
+              {playing ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
+            </button>
+            <button type="button" onClick={() => go(step + 1)} disabled={step >= actions.length} className={controlClass}><ChevronRight size={18} /></button>
+            <button type="button" onClick={() => go(actions.length)} disabled={step >= actions.length} className={controlClass}><SkipForward size={18} /></button>
+          </div>
+
+          <ol className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {actions.map((action, i) => (
+              <li key={i}>
+                <button type="button" onClick={() => go(i + 1)} className={`w-full flex gap-3 px-3 py-1.5 rounded-lg text-left transition ${step === i + 1 ? 'bg-accent-500 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                  <span className="w-8 font-black opacity-60">{i + 1}.</span>
+                  <span className="w-12 font-mono opacity-60">{formatTime(action.time)}</span>
+                  <span className="flex-1 font-bold">{describeAction(action, i18n)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Locale, Settings } from '../types';
+import { LOCALES } from '../utils/i18n';
+import { useTranslation } from '../utils/useTranslation';
+import ThemePicker from './ThemePicker';
+import { X, Settings as SettingsIcon, Keyboard, Languages, Volume2, VolumeX } from 'lucide-react';
+
+interface SettingsModalProps {
+  settings: Settings;
+  focusMode: boolean;
+  onSettingsChange: (settings: Settings) => void;
+  onFocusModeChange: (focusMode: boolean) => void;
+  onShowShortcuts: () => void;
+  onClose: () => void;
+}
+
+type ToggleSetting = Exclude<keyof Settings, 'language' | 'volume' | 'muted' | 'theme' | 'customThemes'>;
+
+// Rótulo e descrição ficam no catálogo em settings.<chave> e settings.<chave>.description
+const SETTING_OPTIONS: ToggleSetting[] = ['darkMode', 'highlightIdentical', 'autoCheckErrors', 'smartFocus', 'keepCandidatesUpdated', 'neuralFeedback'];
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string; description: string }> = ({ checked, onChange, label, description }) => (
+  <label className="flex items-center gap-4 p-3 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-900/60 cursor-pointer transition">
+    <span className="flex-1">
+      <span className="block text-sm font-bold text-slate-900 dark:text-white">{label}</span>
+      <span className="block text-xs text-slate-500 dark:text-slate-400">{description}</span>
+    </span>
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="sr-only peer" />
+    <span className="relative w-11 h-6 shrink-0 rounded-full bg-slate-200 dark:bg-slate-700 peer-checked:bg-accent-500 transition after:absolute after:top-0.5 after:left-0.5 after:w-5 after:h-5 after:rounded-full after:bg-white after:shadow after:transition peer-checked:after:translate-x-5" />
+  </label>
+);
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, focusMode, onSettingsChange, onFocusModeChange, onShowShortcuts, onClose }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <SettingsIcon className="text-accent-500" /> {t('settings.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-1 overflow-y-auto">
+          <label className="flex items-center gap-4 p-3">
+            <span className="flex-1 flex items-center gap-2 text-sm font-bold text-slate-900 dark:text-white"><Languages size={16} className="text-accent-500" /> {t('settings.language')}</span>
+            <select value={settings.language} onChange={e => onSettingsChange({ ...settings, language: e.target.value as Locale })} className="p-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white text-sm font-bold outline-none">
+              {LOCALES.map(l => <option key={l.id} value={l.id} lang={l.id}>{l.name}</option>)}
+            </select>
+          </label>
+          <ThemePicker settings={settings} onSettingsChange={onSettingsChange} />
+          {SETTING_OPTIONS.map(key => (
+            <Toggle key={key} checked={settings[key]} onChange={checked => onSettingsChange({ ...settings, [key]: checked })} label={t(`settings.${key}`)} description={t(`settings.${key}.description`)} />
+          ))}
+          {/* Volume dos sons do feedback neural; o mudo não mexe no nível escolhido */}
+          <div className={`flex items-center gap-3 p-3 ${settings.neuralFeedback ? '' : 'opacity-40'}`}>
+            <button type="button" onClick={() => onSettingsChange({ ...settings, muted: !settings.muted })} disabled={!settings.neuralFeedback} aria-pressed={settings.muted} aria-label={t(settings.muted ? 'game.unmute' : 'game.mute')} className="p-2 rounded-xl bg-slate-100 dark:bg-slate-900 transition active:scale-90">
+              {settings.muted ? <VolumeX size={16} className="text-slate-400" /> : <Volume2 size={16} className="text-accent-500" />}
+            </button>
+            <span className="text-sm font-bold text-slate-900 dark:text-white">{t('settings.volume')}</span>
+            <input type="range" min={0} max={100} step={5} value={Math.round(settings.volume * 100)} disabled={!settings.neuralFeedback || settings.muted} onChange={e => onSettingsChange({ ...settings, volume: Number(e.target.value) / 100 })} aria-label={t('settings.volume')} className="flex-1 accent-accent-500" />
+            <span className="w-10 text-right text-xs font-mono text-slate-500 dark:text-slate-400">{Math.round(settings.volume * 100)}%</span>
+          </div>
+          <div className="pt-2 mt-2 border-t border-slate-100 dark:border-slate-700">
+            <Toggle checked={focusMode} onChange={onFocusModeChange} label={t('settings.focusMode')} description={t('settings.focusMode.description')} />
+          </div>
+          <button type="button" onClick={onShowShortcuts} className="w-full mt-2 py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300 flex items-center justify-center gap-2 transition active:scale-95">
+            <Keyboard size={16} /> {t('shortcuts.title')} <kbd className="font-mono text-xs opacity-60">?</kbd>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
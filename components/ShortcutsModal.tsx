@@ -0,0 +1,60 @@
+import React from 'react';
+import { useTranslation } from '../utils/useTranslation';
+import { X, Keyboard } from 'lucide-react';
+
+interface ShortcutsModalProps {
+  hexDigits: boolean; // Grade 16x16: letras A–G são dígitos e WASD fica desligado
+  onClose: () => void;
+}
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 font-mono text-[11px] font-bold text-slate-700 dark:text-slate-200">{children}</kbd>
+);
+
+const ShortcutsModal: React.FC<ShortcutsModalProps> = ({ hexDigits, onClose }) => {
+  const { t } = useTranslation();
+  const shortcuts: [React.ReactNode, string][] = [
+    [<><Key>←</Key> <Key>↑</Key> <Key>→</Key> <Key>↓</Key>{!hexDigits && <> <Key>W</Key> <Key>A</Key> <Key>S</Key> <Key>D</Key></>}</>, t('shortcuts.move')],
+    [<><Key>Shift</Key> + <Key>←</Key></>, t('shortcuts.extend')],
+    [<><Key>[</Key> <Key>]</Key></>, t('shortcuts.emptyCell')],
+    [<><Key>Page Up</Key> <Key>Page Down</Key></>, t('shortcuts.box')],
+    [<><Key>Home</Key> <Key>End</Key></>, t('shortcuts.row')],
+    [<><Key>1</Key>–<Key>9</Key>{hexDigits && <> <Key>A</Key>–<Key>G</Key></>}</>, t('shortcuts.enterDigit')],
+    [<><Key>Shift</Key> + {t('shortcuts.digit')}</>, t('shortcuts.cornerNote')],
+    [<><Key>Del</Key> <Key>0</Key></>, t('shortcuts.erase')],
+    [<Key>N</Key>, t('shortcuts.notes')],
+    [<Key>H</Key>, t('shortcuts.hint')],
+    [<Key>V</Key>, t('shortcuts.check')],
+    [<Key>P</Key>, t('shortcuts.pause')],
+    [<Key>M</Key>, t('shortcuts.newGame')],
+    [<Key>U</Key>, t('shortcuts.mute')],
+    [<><Key>Ctrl</Key> + <Key>Z</Key> / <Key>Y</Key></>, t('shortcuts.undo')],
+    [<Key>Esc</Key>, t('shortcuts.clearSelection')],
+    [<Key>?</Key>, t('shortcuts.help')],
+  ];
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="shortcuts-title" className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 id="shortcuts-title" className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <Keyboard className="text-accent-500" /> {t('shortcuts.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} autoFocus className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        <dl className="p-6 space-y-2 overflow-y-auto text-sm">
+          {shortcuts.map(([keys, description]) => (
+            <div key={description} className="flex items-center gap-4">
+              <dt className="w-40 shrink-0 flex flex-wrap items-center gap-1 text-slate-500">{keys}</dt>
+              <dd className="text-slate-700 dark:text-slate-200">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsModal;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Difficulty, GameMode, GameRecord } from '../types';
+import { summarizeStats, exportStats, importStats } from '../utils/stats';
+import { errorMessage } from '../utils/i18n';
+import { useTranslation } from '../utils/useTranslation';
+import { X, BarChart3, Flame, Trophy, FileDown, FileUp, AlertTriangle } from 'lucide-react';
+
+interface StatsModalProps {
+  records: GameRecord[];
+  onRecordsChange: (records: GameRecord[]) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (seconds: number | null) =>
+  seconds === null ? '—' : `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+
+const StatsModal: React.FC<StatsModalProps> = ({ records, onRecordsChange, onClose }) => {
+  const i18n = useTranslation();
+  const { t, plural, locale } = i18n;
+  const [importError, setImportError] = useState<string | null>(null);
+  const summary = summarizeStats(records);
+
+  const downloadStats = () => {
+    const url = URL.createObjectURL(new Blob([exportStats()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'neon-sudoku-stats.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        onRecordsChange(importStats(text));
+        setImportError(null);
+      } catch (err) {
+        setImportError(errorMessage(err, i18n));
+      }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md max-h-[90vh] flex flex-col rounded-3xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-slate-900 dark:text-white">
+            <BarChart3 className="text-accent-500" /> {t('stats.title')}
+          </h2>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-900">
+              <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400">{t('stats.wins')}</p>
+              <p className="text-xl font-black text-slate-900 dark:text-white">{Math.round(summary.winRate * 100)}%</p>
+            </div>
+            <div className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-900">
+              <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 flex items-center justify-center gap-1"><Flame size={10} className="text-orange-500" /> {t('stats.streak')}</p>
+              <p className="text-xl font-black text-slate-900 dark:text-white">{summary.currentStreak}</p>
+            </div>
+            <div className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-900">
+              <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 flex items-center justify-center gap-1"><Trophy size={10} className="text-yellow-500" /> {t('stats.longestStreak')}</p>
+              <p className="text-xl font-black text-slate-900 dark:text-white">{summary.longestStreak}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase text-slate-500 dark:text-slate-400">
+                <th className="text-left pb-2">{t('stats.level')}</th>
+                <th className="pb-2">{t('stats.played')}</th>
+                <th className="pb-2">{t('stats.wins')}</th>
+                <th className="pb-2">{t('stats.bestTime')}</th>
+                <th className="pb-2">{t('stats.averageTime')}</th>
+              </tr>
+            </thead>
+            <tbody className="text-center font-bold text-slate-700 dark:text-slate-200">
+              {Object.values(Difficulty).map(d => {
+                const stats = summary.byDifficulty[d];
+                return (
+                  <tr key={d} className="border-t border-slate-100 dark:border-slate-700">
+                    <td className="text-left py-2">{t(`difficulty.${d}`)}</td>
+                    <td>{stats.played}</td>
+                    <td>{Math.round(stats.winRate * 100)}%</td>
+                    <td className="font-mono">{formatDuration(stats.bestTime)}</td>
+                    <td className="font-mono">{formatDuration(stats.averageTime)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div>
+            <p className="text-[10px] uppercase font-black text-slate-500 dark:text-slate-400 mb-2">{t('stats.recent')}</p>
+            {summary.recent.length === 0 ? (
+              <p className="text-sm text-slate-400">{t('stats.noGames')}</p>
+            ) : (
+              <ul className="space-y-1">
+                {summary.recent.map(r => (
+                  <li key={r.id} className="flex items-center gap-2 text-xs p-2 rounded-xl bg-slate-50 dark:bg-slate-900/60">
+                    <span className={`w-2 h-2 rounded-full ${r.won ? 'bg-success-500' : 'bg-error-500'}`} />
+                    <span className="font-bold text-slate-700 dark:text-slate-200">{t(`difficulty.${r.difficulty}`)}{r.mode !== GameMode.NORMAL ? ` • ${t(`mode.${r.mode}`)}` : ''}</span>
+                    <span className="flex-1 text-slate-400">{new Date(r.date).toLocaleDateString(locale)}</span>
+                    <span className="font-mono text-slate-500 dark:text-slate-400">{formatDuration(r.time)}</span>
+                    <span className="text-slate-400">{plural('stats.errors', r.errors)} • {plural('stats.hints', r.hintsUsed)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {importError && (
+            <p className="flex items-start gap-2 text-xs text-error-500"><AlertTriangle size={14} className="shrink-0" /> {importError}</p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <button type="button" onClick={downloadStats} className="py-3 rounded-xl bg-slate-100 dark:bg-slate-700 font-bold text-slate-600 dark:text-slate-300 flex items-center justify-center gap-2">
+              <FileDown size={16} /> {t('common.export')}
+            </button>
+            <label className="py-3 rounded-xl bg-accent-500 font-bold text-white flex items-center justify-center gap-2 cursor-pointer">
+              <FileUp size={16} /> {t('common.import')}
+              <input type="file" accept=".json" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsModal;
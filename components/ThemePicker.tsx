@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { CustomTheme, Palette, Settings, ThemeColors } from '../types';
+import { EDITABLE_COLORS, PALETTES, themeColors } from '../utils/themes';
+import { createId } from '../utils/random';
+import { useTranslation } from '../utils/useTranslation';
+import { Palette as PaletteIcon, Plus, PencilLine, Trash2, Check } from 'lucide-react';
+
+interface ThemePickerProps {
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+}
+
+const Swatches: React.FC<{ colors: ThemeColors }> = ({ colors }) => (
+  <span className="flex -space-x-1">
+    {EDITABLE_COLORS.map(key => (
+      <span key={key} style={{ backgroundColor: colors[key] }} className="w-4 h-4 rounded-full border-2 border-white dark:border-slate-800" />
+    ))}
+  </span>
+);
+
+// Temas prontos e os do jogador; um tema novo parte das cores do tema em uso
+const ThemePicker: React.FC<ThemePickerProps> = ({ settings, onSettingsChange }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<CustomTheme | null>(null);
+  const { theme, customThemes } = settings;
+
+  const optionClass = (selected: boolean) =>
+    `flex items-center gap-2 p-2 rounded-xl text-left text-xs font-bold transition active:scale-95 border-2 ${selected ? 'border-accent-500 bg-accent-500/10 text-slate-900 dark:text-white' : 'border-transparent bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300'}`;
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const named = { ...draft, name: draft.name.trim() || t('theme.untitled') };
+    const exists = customThemes.some(c => c.id === named.id);
+    onSettingsChange({
+      ...settings,
+      theme: named.id,
+      customThemes: exists ? customThemes.map(c => (c.id === named.id ? named : c)) : [...customThemes, named],
+    });
+    setDraft(null);
+  };
+
+  const deleteTheme = (id: string) => {
+    onSettingsChange({ ...settings, theme: theme === id ? Palette.NEON : theme, customThemes: customThemes.filter(c => c.id !== id) });
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      <p className="flex items-center gap-2 text-sm font-bold text-slate-900 dark:text-white"><PaletteIcon size={16} className="text-accent-500" /> {t('settings.theme')}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {Object.values(Palette).map(p => (
+          <button key={p} type="button" onClick={() => onSettingsChange({ ...settings, theme: p })} aria-pressed={theme === p} className={optionClass(theme === p)}>
+            <Swatches colors={PALETTES[p]} /> <span className="truncate">{t(`theme.${p}`)}</span>
+          </button>
+        ))}
+        {customThemes.map(c => (
+          <div key={c.id} className={`${optionClass(theme === c.id)} pr-1`}>
+            <button type="button" onClick={() => onSettingsChange({ ...settings, theme: c.id })} aria-pressed={theme === c.id} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+              <Swatches colors={c.colors} /> <span className="truncate">{c.name}</span>
+            </button>
+            <button type="button" onClick={() => setDraft(c)} aria-label={t('theme.edit', { name: c.name })} className="p-1 rounded-lg text-slate-400 hover:text-accent-500 transition">
+              <PencilLine size={12} />
+            </button>
+            <button type="button" onClick={() => deleteTheme(c.id)} aria-label={t('theme.delete', { name: c.name })} className="p-1 rounded-lg text-slate-400 hover:text-error-500 transition">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <form onSubmit={saveDraft} className="p-3 rounded-2xl bg-slate-50 dark:bg-slate-900/60 space-y-3">
+          <input
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            placeholder={t('theme.name')}
+            aria-label={t('theme.name')}
+            maxLength={24}
+            className="w-full p-2 rounded-xl bg-white dark:bg-slate-800 text-sm font-bold text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-accent-500"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {EDITABLE_COLORS.map(key => (
+              <label key={key} className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300">
+                <input type="color" value={draft.colors[key]} onChange={e => setDraft({ ...draft, colors: { ...draft.colors, [key]: e.target.value } })} className="w-8 h-8 rounded-lg bg-transparent cursor-pointer" />
+                {t(`theme.color.${key}`)}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 py-2 rounded-xl bg-slate-200 dark:bg-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300 transition active:scale-95">
+              {t('common.cancel')}
+            </button>
+            <button type="submit" className="flex-1 py-2 rounded-xl bg-accent-500 text-white text-sm font-bold flex items-center justify-center gap-1 transition active:scale-95">
+              <Check size={14} /> {t('theme.save')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button type="button" onClick={() => setDraft({ id: createId(), name: '', colors: { ...themeColors(settings) } })} className="w-full py-2 rounded-xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-500 dark:text-slate-400 flex items-center justify-center gap-1 hover:border-accent-500 hover:text-accent-500 transition">
+          <Plus size={14} /> {t('theme.create')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ThemePicker;
@@ -0,0 +1,364 @@
+import type ptBR from './pt-BR';
+
+const en: Record<keyof typeof ptBR, string> = {
+  'app.loading': 'Generating puzzle...',
+  'app.loadFailed': 'The puzzle could not be generated.',
+  'app.retry': 'Try again',
+
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'difficulty.expert': 'Expert',
+
+  'variant.classic': 'Classic',
+  'variant.classic.description': 'Rows, columns and boxes',
+  'variant.diagonal': 'Diagonal',
+  'variant.diagonal.description': 'Both diagonals also hold every digit',
+  'variant.jigsaw': 'Jigsaw',
+  'variant.jigsaw.description': 'Irregularly shaped boxes',
+  'variant.killer': 'Killer',
+  'variant.killer.description': 'Cages add up to the given sum, without repeats',
+  'variant.antiKnight': 'Anti-Knight',
+  'variant.antiKnight.description': 'A knight\'s move never repeats a digit',
+  'variant.antiKing': 'Anti-King',
+  'variant.antiKing.description': 'Diagonally adjacent cells never repeat',
+
+  'technique.nakedSingle': 'Naked Single',
+  'technique.hiddenSingle': 'Hidden Single',
+  'technique.nakedPair': 'Naked Pair',
+  'technique.nakedTriple': 'Naked Triple',
+  'technique.hiddenPair': 'Hidden Pair',
+  'technique.hiddenTriple': 'Hidden Triple',
+  'technique.pointingPair': 'Pointing Pair',
+  'technique.boxLineReduction': 'Box/Line Reduction',
+  'technique.xWing': 'X-Wing',
+  'technique.swordfish': 'Swordfish',
+  'technique.xyWing': 'XY-Wing',
+  'technique.cageCombination': 'Cage Combination',
+  'technique.guessing': 'Trial and error',
+
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.import': 'Import',
+  'common.export': 'Export',
+
+  'cell.label': 'R{row}C{col}',
+  'cell.position': 'Row {row}, column {col}',
+  'cell.fixed': '{digit}, given',
+  'cell.empty': 'empty',
+  'cell.error': 'error',
+  'cell.candidates': 'candidates {digits}',
+  'cell.corners': 'corners {digits}',
+  'cell.color': 'color {color}',
+
+  'hint.lookAtRegion': 'Look at the highlighted area',
+  'hint.placement': 'Place {digit} in {cell}.',
+  'hint.elimination': '{digit} from {cell}',
+  'hint.eliminations': 'Cells {cells} with {digits}: remove {removed}.',
+  'hint.more': 'More',
+  'hint.apply': 'Apply',
+
+  'check.none': 'No mistakes found.',
+  'check.wrong_one': '{count} wrong entry marked.',
+  'check.wrong_other': '{count} wrong entries marked.',
+
+  'announce.hintRegion': 'Hint: look at the highlighted area.',
+  'announce.hintTechnique': 'Hint: {technique}.',
+  'announce.paused': 'Game paused.',
+  'announce.running': 'Game running.',
+  'announce.won': 'Congratulations! Puzzle solved in {time}.',
+  'announce.lost_one': 'Game over: {count} mistake.',
+  'announce.lost_other': 'Game over: {count} mistakes.',
+  'announce.timeout': 'Game over: time is up.',
+
+  'newGame.title': 'New Game',
+  'newGame.mode': 'Mode',
+  'newGame.variant': 'Variant',
+  'newGame.size': 'Size',
+  'newGame.saves': 'Saved games',
+  'newGame.code': 'Puzzle code',
+  'newGame.open': 'Open',
+  'newGame.invalidCode': 'Invalid code.',
+  'newGame.generating': 'Generating {difficulty}...',
+
+  'save.finished': 'Finished',
+  'save.empty': 'Empty',
+  'save.current': 'Current',
+  'save.continue': 'Continue',
+  'save.newGame': 'New game',
+  'save.delete': 'Delete',
+
+  'confirmReset.title': 'Restart Game?',
+  'confirmReset.message': 'You will lose the progress of the current game.',
+  'confirmReset.confirm': 'Restart',
+
+  'game.ratingTitle': 'Hardest technique required',
+  'game.points': '{score} pts',
+  'game.copyCode': 'Copy puzzle code',
+  'game.toggleTheme': 'Toggle theme',
+  'game.mute': 'Mute sounds',
+  'game.unmute': 'Unmute sounds',
+  'game.exitFocus': 'Leave focus mode',
+  'game.errors': 'Mistakes',
+  'game.time': 'Time',
+  'game.timeLeft': 'Left',
+  'game.lives': 'Lives',
+  'game.progress': 'Progress',
+  'game.board': 'Board',
+  'game.paused': 'Paused',
+  'game.review': 'Review game',
+  'game.analysis': 'Analyze mistakes and pace',
+
+  'won.title': 'WELL DONE!',
+  'won.playAgain': 'Play Again',
+  'won.timeLeft': '{time} to spare',
+  'lost.title': 'GAME OVER',
+  'lost.message_one': 'You made {count} mistake.',
+  'lost.message_other': 'You made {count} mistakes.',
+  'lost.tryAgain': 'Try Again',
+  'lost.timeoutTitle': 'TIME UP',
+  'lost.timeoutMessage': 'You filled in {progress}% of the board.',
+
+  'controls.undo': 'Undo',
+  'controls.redo': 'Redo',
+  'controls.erase': 'Erase',
+  'controls.notes': 'Notes',
+  'controls.check': 'Check',
+  'controls.hint': 'Hint',
+  'controls.pause': 'Pause',
+  'controls.resume': 'Resume',
+
+  'notes.center': 'Center',
+  'notes.corner': 'Corner',
+  'notes.cornerShortcut': 'Shift + digit',
+  'notes.candidates': 'Candidates',
+  'notes.candidatesTitle': 'Fills the center marks with every valid candidate',
+  'notes.color': 'Color {color}',
+  'notes.clearColor': 'Remove color',
+
+  'stats.title': 'Statistics',
+  'stats.wins': 'Wins',
+  'stats.streak': 'Streak',
+  'stats.longestStreak': 'Best',
+  'stats.level': 'Level',
+  'stats.played': 'Played',
+  'stats.bestTime': 'Best',
+  'stats.averageTime': 'Average',
+  'stats.recent': 'Recent games',
+  'stats.noGames': 'No finished games yet.',
+  'stats.errors_one': '{count} mistake',
+  'stats.errors_other': '{count} mistakes',
+  'stats.hints_one': '{count} hint',
+  'stats.hints_other': '{count} hints',
+
+  'daily.title': 'Daily Challenge',
+  'daily.badge': 'Daily',
+  'daily.today': 'Today',
+  'daily.play': 'Play',
+  'daily.won': 'Solved in {time}',
+  'daily.lost': 'Not solved',
+  'daily.inProgress': 'In progress',
+  'daily.notPlayed': 'Not played',
+  'daily.locked': 'Already played: the challenge cannot be replayed',
+  'daily.onlyToday': 'Only today\'s challenge can be played.',
+  'daily.previousMonth': 'Previous month',
+  'daily.nextMonth': 'Next month',
+  'daily.streakDays_one': '{count} day in a row',
+  'daily.streakDays_other': '{count} days in a row',
+
+  'editor.title': 'Puzzle editor',
+  'editor.open': 'Enter a puzzle',
+  'editor.givens_one': '{count} given',
+  'editor.givens_other': '{count} givens',
+  'editor.conflicts_one': '{count} conflict',
+  'editor.conflicts_other': '{count} conflicts',
+  'editor.none': 'No solution',
+  'editor.unique': 'Unique solution',
+  'editor.multiple': 'More than one solution',
+  'editor.unknown': 'The solution could not be checked',
+  'editor.clueUnique': '{digit} at {cell} makes the solution unique.',
+  'editor.clueNotEnough': '{digit} at {cell}; one clue is not enough, ask for another.',
+  'editor.clear': 'Clear',
+  'editor.suggest': 'Suggest',
+  'editor.suggestTitle': 'Adds a clue that rules out the other solutions',
+  'editor.play': 'Play',
+
+  'booklet.title': 'Printable booklet',
+  'booklet.open': 'Printable booklet',
+  'booklet.fewer': 'Fewer {difficulty} puzzles',
+  'booklet.more': 'More {difficulty} puzzles',
+  'booklet.perPage': 'Puzzles per page',
+  'booklet.solutionsNote': 'Solutions come at the back, six to a page.',
+  'booklet.generate': 'Create booklet',
+  'booklet.generating': 'Generating {current} of {total}...',
+  'booklet.pages_one': '{count} page',
+  'booklet.pages_other': '{count} pages',
+  'booklet.print': 'Print',
+  'booklet.download': 'Download page {page} as SVG',
+  'booklet.puzzlesTitle': 'Neon Sudoku — Puzzles',
+  'booklet.solutionsTitle': 'Neon Sudoku — Solutions',
+  'booklet.page': 'Page {page}',
+
+  'race.open': 'Race with friends',
+  'race.title': 'Race',
+  'race.relayHint': 'Everyone connects to the same local relay. To start it, run in the project folder:',
+  'race.server': 'Server',
+  'race.room': 'Room',
+  'race.name': 'Your name',
+  'race.join': 'Join room',
+  'race.rejected': 'The relay turned you away: the room is full or its code is invalid.',
+  'race.invalidUrl': 'Invalid address: use ws://host:port.',
+  'race.roomCode': 'Room {room}',
+  'race.connecting': 'Connecting...',
+  'race.reconnecting': 'Reconnecting...',
+  'race.you': 'you',
+  'race.out': 'Out',
+  'race.difficulty': 'Difficulty',
+  'race.start': 'Start',
+  'race.rematch': 'Rematch',
+  'race.leave': 'Leave room',
+  'race.running': 'Race under way ({difficulty}).',
+  'race.waiting': 'Waiting for the start...',
+  'race.alone': 'No opponents in the room.',
+  'race.over': 'Race over',
+  'race.youWon': 'You won the race!',
+  'race.wonBy': '{name} won the race',
+  'race.wonIn': '{name} won in {time}',
+  'race.noWinner': 'Nobody finished: everyone hit the mistake limit.',
+  'controls.hintsLeft_one': '{count} hint left',
+  'controls.hintsLeft_other': '{count} hints left',
+  'hint.budgetUsed': 'You have used every hint for this game.',
+  'score.breakdown': 'Moves {entries} • Units {units} • Time {speed} • Mistakes {errors} • Hints {hints} • x{multiplier}',
+  'score.leaderboard': 'Top 10 • {difficulty}',
+  'mode.normal': 'Normal',
+  'mode.normal.description': 'Three mistakes and limited hints.',
+  'mode.zen': 'Zen',
+  'mode.zen.description': 'No mistake or hint limit, kept off the leaderboard.',
+  'mode.countdown': 'Countdown',
+  'mode.countdown.description': 'Solve it before the clock runs out.',
+  'mode.survival': 'Survival',
+  'mode.survival.description': 'Puzzles back to back on the same five lives.',
+  'mode.blitz': 'Blitz',
+  'mode.blitz.description': 'A short clock; every row, column or box you complete adds {seconds}s.',
+  'blitz.bonus_one': '{count} unit completed: +{seconds}s',
+  'blitz.bonus_other': '{count} units completed: +{seconds}s',
+  'survival.clearedTitle': 'PUZZLE {count} CLEARED!',
+  'survival.livesLeft_one': '{count} life left',
+  'survival.livesLeft_other': '{count} lives left',
+  'survival.next': 'Next Puzzle',
+  'survival.stop': 'End the run and pick another game',
+  'survival.overTitle': 'OUT OF LIVES',
+  'survival.cleared_one': 'You cleared {count} puzzle in this run.',
+  'survival.cleared_other': 'You cleared {count} puzzles in this run.',
+  'analysis.title': 'Game Analysis',
+  'analysis.pace': 'Pace (cells per minute)',
+  'analysis.average': 'Average {rate}/min',
+  'analysis.placed_one': '{count} cell',
+  'analysis.placed_other': '{count} cells',
+  'analysis.errors_one': '{count} mistake',
+  'analysis.errors_other': '{count} mistakes',
+  'analysis.noMistakes': 'No mistakes this game.',
+  'analysis.entry': '{cell}: {value} instead of {correct}',
+  'analysis.technique': 'Technique that would have found the digit: {technique}',
+  'analysis.noTechnique': 'No known technique reached this cell at that point.',
+  'analysis.showMove': 'Show in replay',
+  'theme.neon': 'Neon',
+  'theme.magenta': 'Magenta',
+  'theme.lime': 'Lime',
+  'theme.violet': 'Violet',
+  'theme.highContrast': 'High contrast',
+  'theme.deuteranopia': 'Deuteranopia',
+  'theme.protanopia': 'Protanopia',
+  'theme.create': 'Create theme',
+  'theme.name': 'Theme name',
+  'theme.untitled': 'My theme',
+  'theme.save': 'Save theme',
+  'theme.edit': 'Edit {name}',
+  'theme.delete': 'Delete {name}',
+  'theme.color.accent': 'Accent',
+  'theme.color.entry': 'Entries',
+  'theme.color.error': 'Errors',
+  'theme.color.success': 'Success',
+  'transfer.title': 'Import / Export',
+  'transfer.placeholder': 'Paste an 81-character line, an .sdk/.ss grid or a JSON file here',
+  'transfer.importAndPlay': 'Import and play',
+  'transfer.onlyClassic': 'Export is only available for classic 9x9 Sudoku.',
+  'transfer.includeEntries': 'Include my entries',
+  'transfer.copy': 'Copy',
+  'transfer.download': 'Download',
+  'format.line': 'Line (81 characters)',
+  'format.sdk': 'SadMan (.sdk)',
+  'format.ss': 'Simple Sudoku (.ss)',
+  'format.json': 'JSON with notes and progress',
+
+  'replay.title': 'Game review',
+  'replay.step': 'Move {step} of {total}',
+  'replay.start': 'Starting position',
+  'replay.note': '{cells} note {digit}',
+  'replay.cornerNote': '{cells} corner note {digit}',
+  'replay.erase_one': '{cells} erased',
+  'replay.erase_other': '{cells} erased',
+  'replay.hint': 'Hint: {cell} = {digit}',
+  'replay.hintNotes': 'Hint: notes in {cells}',
+  'replay.check_one': 'Check: {count} mistake',
+  'replay.check_other': 'Check: {count} mistakes',
+  'replay.candidates': 'Automatic candidates',
+  'replay.color': '{cells} colored',
+  'replay.uncolor': '{cells} color removed',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.theme': 'Theme',
+  'settings.darkMode': 'Dark mode',
+  'settings.darkMode.description': 'Dark theme with neon highlights',
+  'settings.highlightIdentical': 'Highlight matching digits',
+  'settings.highlightIdentical.description': 'Highlights the cells holding the same digit as the selected one',
+  'settings.autoCheckErrors': 'Check mistakes while playing',
+  'settings.autoCheckErrors.description': 'When off, mistakes only show up when you tap Check and do not count towards the limit',
+  'settings.smartFocus': 'Smart focus',
+  'settings.smartFocus.description': 'Dims everything except the cells where the selected digit still fits',
+  'settings.keepCandidatesUpdated': 'Keep candidates up to date',
+  'settings.keepCandidatesUpdated.description': 'Erasing a number recalculates the center marks of the affected cells',
+  'settings.neuralFeedback': 'Neural feedback',
+  'settings.neuralFeedback.description': 'Glowing entries, sounds and vibration, and a pulse when a row, column or box is completed',
+  'settings.volume': 'Volume',
+  'settings.focusMode': 'Focus mode',
+  'settings.focusMode.description': 'Hides the scoreboard and controls for this game; the keyboard keeps working',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.digit': 'digit',
+  'shortcuts.move': 'Move the selection (wraps around the edges)',
+  'shortcuts.extend': 'Extend the selection',
+  'shortcuts.emptyCell': 'Previous / next empty cell',
+  'shortcuts.box': 'Previous / next box',
+  'shortcuts.row': 'Start / end of the row',
+  'shortcuts.enterDigit': 'Enter a digit',
+  'shortcuts.cornerNote': 'Corner note',
+  'shortcuts.erase': 'Erase',
+  'shortcuts.notes': 'Toggle notes',
+  'shortcuts.hint': 'Hint',
+  'shortcuts.check': 'Check (with live checking off)',
+  'shortcuts.pause': 'Pause / resume',
+  'shortcuts.newGame': 'New game',
+  'shortcuts.mute': 'Mute / unmute sounds',
+  'shortcuts.undo': 'Undo / redo',
+  'shortcuts.clearSelection': 'Clear the multi-selection',
+  'shortcuts.help': 'Show this help',
+
+  'error.unexpectedChar': 'Unexpected character: "{char}".',
+  'error.cellCount': 'Invalid format: expected 81 cells, found {count}.',
+  'error.invalidJson': 'Invalid JSON.',
+  'error.unknownJson': 'Unrecognized JSON: the "format" and "givens" fields are missing.',
+  'error.notesLength': 'Invalid JSON: "notes" must hold 81 lists.',
+  'error.notesList': 'Invalid JSON: every item of "notes" must be a list.',
+  'error.invalidProgress': 'Invalid JSON: "time" and "errors" must be non-negative whole numbers.',
+  'error.conflict': 'Conflict: the {digit} at R{row}C{col} repeats in its row, column or box.',
+  'error.nothingToImport': 'Nothing to import.',
+  'error.noSolution': 'The puzzle has no solution.',
+  'error.multipleSolutions': 'The puzzle has more than one solution.',
+  'error.entriesOnGivens': 'Invalid JSON: there are entries over given numbers.',
+  'error.unknownStatsFile': 'Unrecognized statistics file.',
+  'error.invalidGames': 'The file contains invalid games.',
+};
+
+export default en;
@@ -0,0 +1,364 @@
+import type ptBR from './pt-BR';
+
+const es: Record<keyof typeof ptBR, string> = {
+  'app.loading': 'Generando sudoku...',
+  'app.loadFailed': 'No se pudo generar el sudoku.',
+  'app.retry': 'Reintentar',
+
+  'difficulty.easy': 'Fácil',
+  'difficulty.medium': 'Medio',
+  'difficulty.hard': 'Difícil',
+  'difficulty.expert': 'Experto',
+
+  'variant.classic': 'Clásico',
+  'variant.classic.description': 'Filas, columnas y bloques',
+  'variant.diagonal': 'Diagonal',
+  'variant.diagonal.description': 'Las dos diagonales también tienen todos los dígitos',
+  'variant.jigsaw': 'Jigsaw',
+  'variant.jigsaw.description': 'Bloques con formas irregulares',
+  'variant.killer': 'Killer',
+  'variant.killer.description': 'Las jaulas suman el número indicado, sin repetir',
+  'variant.antiKnight': 'Anti-Caballo',
+  'variant.antiKnight.description': 'Un salto de caballo nunca repite dígito',
+  'variant.antiKing': 'Anti-Rey',
+  'variant.antiKing.description': 'Las celdas vecinas en diagonal nunca se repiten',
+
+  'technique.nakedSingle': 'Candidato Único',
+  'technique.hiddenSingle': 'Posición Única',
+  'technique.nakedPair': 'Par Desnudo',
+  'technique.nakedTriple': 'Trío Desnudo',
+  'technique.hiddenPair': 'Par Oculto',
+  'technique.hiddenTriple': 'Trío Oculto',
+  'technique.pointingPair': 'Par Apuntador',
+  'technique.boxLineReduction': 'Reducción Bloque/Línea',
+  'technique.xWing': 'X-Wing',
+  'technique.swordfish': 'Swordfish',
+  'technique.xyWing': 'XY-Wing',
+  'technique.cageCombination': 'Combinación de la Jaula',
+  'technique.guessing': 'Prueba y error',
+
+  'common.close': 'Cerrar',
+  'common.cancel': 'Cancelar',
+  'common.import': 'Importar',
+  'common.export': 'Exportar',
+
+  'cell.label': 'F{row}C{col}',
+  'cell.position': 'Fila {row}, columna {col}',
+  'cell.fixed': '{digit}, fijo',
+  'cell.empty': 'vacía',
+  'cell.error': 'error',
+  'cell.candidates': 'candidatos {digits}',
+  'cell.corners': 'esquinas {digits}',
+  'cell.color': 'color {color}',
+
+  'hint.lookAtRegion': 'Observa el área destacada',
+  'hint.placement': 'Coloca {digit} en {cell}.',
+  'hint.elimination': '{digit} de {cell}',
+  'hint.eliminations': 'Celdas {cells} con {digits}: elimina {removed}.',
+  'hint.more': 'Más',
+  'hint.apply': 'Aplicar',
+
+  'check.none': 'No se encontraron errores.',
+  'check.wrong_one': '{count} jugada incorrecta marcada.',
+  'check.wrong_other': '{count} jugadas incorrectas marcadas.',
+
+  'announce.hintRegion': 'Pista: observa el área destacada.',
+  'announce.hintTechnique': 'Pista: {technique}.',
+  'announce.paused': 'Juego en pausa.',
+  'announce.running': 'Juego en curso.',
+  'announce.won': '¡Felicidades! Sudoku resuelto en {time}.',
+  'announce.lost_one': 'Fin del juego: {count} error.',
+  'announce.lost_other': 'Fin del juego: {count} errores.',
+  'announce.timeout': 'Fin del juego: se acabó el tiempo.',
+
+  'newGame.title': 'Nuevo Juego',
+  'newGame.mode': 'Modo',
+  'newGame.variant': 'Variante',
+  'newGame.size': 'Tamaño',
+  'newGame.saves': 'Partidas guardadas',
+  'newGame.code': 'Código del juego',
+  'newGame.open': 'Abrir',
+  'newGame.invalidCode': 'Código inválido.',
+  'newGame.generating': 'Generando {difficulty}...',
+
+  'save.finished': 'Terminado',
+  'save.empty': 'Vacío',
+  'save.current': 'Actual',
+  'save.continue': 'Continuar',
+  'save.newGame': 'Nuevo juego',
+  'save.delete': 'Borrar',
+
+  'confirmReset.title': '¿Reiniciar Juego?',
+  'confirmReset.message': 'Perderás el progreso de la partida actual.',
+  'confirmReset.confirm': 'Reiniciar',
+
+  'game.ratingTitle': 'Técnica más difícil necesaria',
+  'game.points': '{score} pts',
+  'game.copyCode': 'Copiar código del juego',
+  'game.toggleTheme': 'Cambiar tema',
+  'game.mute': 'Silenciar sonidos',
+  'game.unmute': 'Activar sonidos',
+  'game.exitFocus': 'Salir del modo enfoque',
+  'game.errors': 'Errores',
+  'game.time': 'Tiempo',
+  'game.timeLeft': 'Restante',
+  'game.lives': 'Vidas',
+  'game.progress': 'Progreso',
+  'game.board': 'Tablero',
+  'game.paused': 'En pausa',
+  'game.review': 'Revisar partida',
+  'game.analysis': 'Analizar errores y ritmo',
+
+  'won.title': '¡FELICIDADES!',
+  'won.playAgain': 'Jugar de Nuevo',
+  'won.timeLeft': 'Sobraron {time}',
+  'lost.title': 'GAME OVER',
+  'lost.message_one': 'Cometiste {count} error.',
+  'lost.message_other': 'Cometiste {count} errores.',
+  'lost.tryAgain': 'Intentar de Nuevo',
+  'lost.timeoutTitle': 'TIEMPO AGOTADO',
+  'lost.timeoutMessage': 'Completaste el {progress}% del tablero.',
+
+  'controls.undo': 'Deshacer',
+  'controls.redo': 'Rehacer',
+  'controls.erase': 'Borrar',
+  'controls.notes': 'Notas',
+  'controls.check': 'Verificar',
+  'controls.hint': 'Pista',
+  'controls.pause': 'Pausar',
+  'controls.resume': 'Reanudar',
+
+  'notes.center': 'Centro',
+  'notes.corner': 'Esquina',
+  'notes.cornerShortcut': 'Shift + dígito',
+  'notes.candidates': 'Candidatos',
+  'notes.candidatesTitle': 'Rellena las notas centrales con todos los candidatos válidos',
+  'notes.color': 'Color {color}',
+  'notes.clearColor': 'Quitar color',
+
+  'stats.title': 'Estadísticas',
+  'stats.wins': 'Victorias',
+  'stats.streak': 'Racha',
+  'stats.longestStreak': 'Récord',
+  'stats.level': 'Nivel',
+  'stats.played': 'Partidas',
+  'stats.bestTime': 'Mejor',
+  'stats.averageTime': 'Media',
+  'stats.recent': 'Partidas recientes',
+  'stats.noGames': 'Todavía no hay partidas terminadas.',
+  'stats.errors_one': '{count} error',
+  'stats.errors_other': '{count} errores',
+  'stats.hints_one': '{count} pista',
+  'stats.hints_other': '{count} pistas',
+
+  'daily.title': 'Desafío Diario',
+  'daily.badge': 'Diario',
+  'daily.today': 'Hoy',
+  'daily.play': 'Jugar',
+  'daily.won': 'Resuelto en {time}',
+  'daily.lost': 'No resuelto',
+  'daily.inProgress': 'En curso',
+  'daily.notPlayed': 'Sin jugar',
+  'daily.locked': 'Ya jugado: el desafío no se puede repetir',
+  'daily.onlyToday': 'Solo se puede jugar el desafío de hoy.',
+  'daily.previousMonth': 'Mes anterior',
+  'daily.nextMonth': 'Mes siguiente',
+  'daily.streakDays_one': '{count} día seguido',
+  'daily.streakDays_other': '{count} días seguidos',
+
+  'editor.title': 'Editor de sudokus',
+  'editor.open': 'Escribir un sudoku',
+  'editor.givens_one': '{count} número inicial',
+  'editor.givens_other': '{count} números iniciales',
+  'editor.conflicts_one': '{count} conflicto',
+  'editor.conflicts_other': '{count} conflictos',
+  'editor.none': 'Sin solución',
+  'editor.unique': 'Solución única',
+  'editor.multiple': 'Más de una solución',
+  'editor.unknown': 'No se pudo verificar la solución',
+  'editor.clueUnique': '{digit} en {cell} deja la solución única.',
+  'editor.clueNotEnough': '{digit} en {cell}; una pista no basta, pide otra.',
+  'editor.clear': 'Limpiar',
+  'editor.suggest': 'Sugerir',
+  'editor.suggestTitle': 'Añade una pista que descarta las otras soluciones',
+  'editor.play': 'Jugar',
+
+  'booklet.title': 'Cuaderno para imprimir',
+  'booklet.open': 'Cuaderno para imprimir',
+  'booklet.fewer': 'Menos sudokus {difficulty}',
+  'booklet.more': 'Más sudokus {difficulty}',
+  'booklet.perPage': 'Sudokus por página',
+  'booklet.solutionsNote': 'Las soluciones van al final, seis por página.',
+  'booklet.generate': 'Crear cuaderno',
+  'booklet.generating': 'Generando {current} de {total}...',
+  'booklet.pages_one': '{count} página',
+  'booklet.pages_other': '{count} páginas',
+  'booklet.print': 'Imprimir',
+  'booklet.download': 'Descargar la página {page} en SVG',
+  'booklet.puzzlesTitle': 'Neon Sudoku — Sudokus',
+  'booklet.solutionsTitle': 'Neon Sudoku — Soluciones',
+  'booklet.page': 'Página {page}',
+
+  'race.open': 'Carrera con amigos',
+  'race.title': 'Carrera',
+  'race.relayHint': 'Todos se conectan al mismo relay local. Para iniciarlo, ejecuta en la carpeta del proyecto:',
+  'race.server': 'Servidor',
+  'race.room': 'Sala',
+  'race.name': 'Tu nombre',
+  'race.join': 'Entrar en la sala',
+  'race.rejected': 'El relay rechazó la entrada: la sala está llena o el código no es válido.',
+  'race.invalidUrl': 'Dirección no válida: usa ws://host:puerto.',
+  'race.roomCode': 'Sala {room}',
+  'race.connecting': 'Conectando...',
+  'race.reconnecting': 'Reconectando...',
+  'race.you': 'tú',
+  'race.out': 'Fuera',
+  'race.difficulty': 'Dificultad',
+  'race.start': 'Empezar',
+  'race.rematch': 'Revancha',
+  'race.leave': 'Salir de la sala',
+  'race.running': 'Carrera en curso ({difficulty}).',
+  'race.waiting': 'Esperando la salida...',
+  'race.alone': 'No hay rivales en la sala.',
+  'race.over': 'Fin de la carrera',
+  'race.youWon': '¡Ganaste la carrera!',
+  'race.wonBy': '{name} ganó la carrera',
+  'race.wonIn': '{name} ganó en {time}',
+  'race.noWinner': 'Nadie terminó: todos llegaron al límite de errores.',
+  'controls.hintsLeft_one': 'Queda {count} pista',
+  'controls.hintsLeft_other': 'Quedan {count} pistas',
+  'hint.budgetUsed': 'Ya usaste todas las pistas de esta partida.',
+  'score.breakdown': 'Jugadas {entries} • Grupos {units} • Tiempo {speed} • Errores {errors} • Pistas {hints} • x{multiplier}',
+  'score.leaderboard': 'Top 10 • {difficulty}',
+  'mode.normal': 'Normal',
+  'mode.normal.description': 'Tres errores y pistas limitadas.',
+  'mode.zen': 'Zen',
+  'mode.zen.description': 'Sin límite de errores ni de pistas, fuera del ranking.',
+  'mode.countdown': 'Reloj',
+  'mode.countdown.description': 'Resuélvelo antes de que se acabe el tiempo.',
+  'mode.survival': 'Supervivencia',
+  'mode.survival.description': 'Partidas seguidas con las mismas cinco vidas.',
+  'mode.blitz': 'Blitz',
+  'mode.blitz.description': 'Reloj corto; cada fila, columna o caja completa suma {seconds}s.',
+  'blitz.bonus_one': '{count} grupo completo: +{seconds}s',
+  'blitz.bonus_other': '{count} grupos completos: +{seconds}s',
+  'survival.clearedTitle': '¡PARTIDA {count} SUPERADA!',
+  'survival.livesLeft_one': 'Queda {count} vida',
+  'survival.livesLeft_other': 'Quedan {count} vidas',
+  'survival.next': 'Siguiente Partida',
+  'survival.stop': 'Terminar y elegir otra partida',
+  'survival.overTitle': 'SIN VIDAS',
+  'survival.cleared_one': 'Superaste {count} partida en esta racha.',
+  'survival.cleared_other': 'Superaste {count} partidas en esta racha.',
+  'analysis.title': 'Análisis de la partida',
+  'analysis.pace': 'Ritmo (casillas por minuto)',
+  'analysis.average': 'Media {rate}/min',
+  'analysis.placed_one': '{count} casilla',
+  'analysis.placed_other': '{count} casillas',
+  'analysis.errors_one': '{count} error',
+  'analysis.errors_other': '{count} errores',
+  'analysis.noMistakes': 'Ningún error en esta partida.',
+  'analysis.entry': '{cell}: {value} en lugar de {correct}',
+  'analysis.technique': 'Técnica que habría encontrado el dígito: {technique}',
+  'analysis.noTechnique': 'Ninguna técnica conocida llegaba a esta casilla en ese momento.',
+  'analysis.showMove': 'Ver en la repetición',
+  'theme.neon': 'Neón',
+  'theme.magenta': 'Magenta',
+  'theme.lime': 'Lima',
+  'theme.violet': 'Violeta',
+  'theme.highContrast': 'Alto contraste',
+  'theme.deuteranopia': 'Deuteranopía',
+  'theme.protanopia': 'Protanopía',
+  'theme.create': 'Crear tema',
+  'theme.name': 'Nombre del tema',
+  'theme.untitled': 'Mi tema',
+  'theme.save': 'Guardar tema',
+  'theme.edit': 'Editar {name}',
+  'theme.delete': 'Borrar {name}',
+  'theme.color.accent': 'Acento',
+  'theme.color.entry': 'Jugadas',
+  'theme.color.error': 'Errores',
+  'theme.color.success': 'Aciertos',
+  'transfer.title': 'Importar / Exportar',
+  'transfer.placeholder': 'Pega aquí una línea de 81 caracteres, una cuadrícula .sdk/.ss o un JSON',
+  'transfer.importAndPlay': 'Importar y jugar',
+  'transfer.onlyClassic': 'La exportación solo está disponible para el Sudoku clásico 9x9.',
+  'transfer.includeEntries': 'Incluir mis jugadas',
+  'transfer.copy': 'Copiar',
+  'transfer.download': 'Descargar',
+  'format.line': 'Línea (81 caracteres)',
+  'format.sdk': 'SadMan (.sdk)',
+  'format.ss': 'Simple Sudoku (.ss)',
+  'format.json': 'JSON con notas y progreso',
+
+  'replay.title': 'Revisión de la partida',
+  'replay.step': 'Jugada {step} de {total}',
+  'replay.start': 'Posición inicial',
+  'replay.note': '{cells} nota {digit}',
+  'replay.cornerNote': '{cells} nota de esquina {digit}',
+  'replay.erase_one': '{cells} borrada',
+  'replay.erase_other': '{cells} borradas',
+  'replay.hint': 'Pista: {cell} = {digit}',
+  'replay.hintNotes': 'Pista: notas en {cells}',
+  'replay.check_one': 'Verificación: {count} error',
+  'replay.check_other': 'Verificación: {count} errores',
+  'replay.candidates': 'Candidatos automáticos',
+  'replay.color': '{cells} coloreada',
+  'replay.uncolor': '{cells} sin color',
+
+  'settings.title': 'Ajustes',
+  'settings.language': 'Idioma',
+  'settings.theme': 'Tema',
+  'settings.darkMode': 'Modo oscuro',
+  'settings.darkMode.description': 'Tema oscuro con destellos neón',
+  'settings.highlightIdentical': 'Destacar iguales',
+  'settings.highlightIdentical.description': 'Resalta las celdas con el mismo dígito que la seleccionada',
+  'settings.autoCheckErrors': 'Verificar errores al jugar',
+  'settings.autoCheckErrors.description': 'Desactivado, los errores solo aparecen al tocar Verificar y no cuentan para el límite',
+  'settings.smartFocus': 'Enfoque inteligente',
+  'settings.smartFocus.description': 'Oscurece todo menos las celdas donde el dígito seleccionado aún cabe',
+  'settings.keepCandidatesUpdated': 'Mantener candidatos actualizados',
+  'settings.keepCandidatesUpdated.description': 'Al borrar un número, se recalculan las notas centrales de las celdas afectadas',
+  'settings.neuralFeedback': 'Feedback neuronal',
+  'settings.neuralFeedback.description': 'Brillo, sonidos y vibración en las jugadas, y pulso al completar filas, columnas y bloques',
+  'settings.volume': 'Volumen',
+  'settings.focusMode': 'Modo enfoque',
+  'settings.focusMode.description': 'Oculta el marcador y los controles de esta partida; el teclado sigue funcionando',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.digit': 'dígito',
+  'shortcuts.move': 'Mover la selección (da la vuelta en los bordes)',
+  'shortcuts.extend': 'Ampliar la selección',
+  'shortcuts.emptyCell': 'Celda vacía anterior / siguiente',
+  'shortcuts.box': 'Bloque anterior / siguiente',
+  'shortcuts.row': 'Inicio / fin de la fila',
+  'shortcuts.enterDigit': 'Introducir dígito',
+  'shortcuts.cornerNote': 'Nota de esquina',
+  'shortcuts.erase': 'Borrar',
+  'shortcuts.notes': 'Alternar notas',
+  'shortcuts.hint': 'Pista',
+  'shortcuts.check': 'Verificar (con la verificación automática desactivada)',
+  'shortcuts.pause': 'Pausar / continuar',
+  'shortcuts.newGame': 'Nuevo juego',
+  'shortcuts.mute': 'Silenciar / activar sonidos',
+  'shortcuts.undo': 'Deshacer / rehacer',
+  'shortcuts.clearSelection': 'Limpiar la selección múltiple',
+  'shortcuts.help': 'Mostrar esta ayuda',
+
+  'error.unexpectedChar': 'Carácter inesperado: "{char}".',
+  'error.cellCount': 'Formato inválido: se esperaban 81 celdas, se encontraron {count}.',
+  'error.invalidJson': 'JSON inválido.',
+  'error.unknownJson': 'JSON no reconocido: faltan los campos "format" y "givens".',
+  'error.notesLength': 'JSON inválido: "notes" debe tener 81 listas.',
+  'error.notesList': 'JSON inválido: cada elemento de "notes" debe ser una lista.',
+  'error.invalidProgress': 'JSON inválido: "time" y "errors" deben ser enteros no negativos.',
+  'error.conflict': 'Conflicto: el {digit} en F{row}C{col} se repite en la fila, columna o bloque.',
+  'error.nothingToImport': 'Nada que importar.',
+  'error.noSolution': 'El sudoku no tiene solución.',
+  'error.multipleSolutions': 'El sudoku tiene más de una solución.',
+  'error.entriesOnGivens': 'JSON inválido: hay jugadas sobre números fijos.',
+  'error.unknownStatsFile': 'Archivo de estadísticas no reconocido.',
+  'error.invalidGames': 'El archivo contiene partidas inválidas.',
+};
+
+export default es;
@@ -0,0 +1,364 @@
+// Catálogo de referência: as outras línguas precisam ter exatamente as mesmas chaves.
+// `{nome}` é substituído pelo parâmetro; chaves com _one/_other variam com `count`.
+const ptBR = {
+  'app.loading': 'Gerando quebra-cabeça...',
+  'app.loadFailed': 'Não foi possível gerar o quebra-cabeça.',
+  'app.retry': 'Tentar de novo',
+
+  'difficulty.easy': 'Fácil',
+  'difficulty.medium': 'Médio',
+  'difficulty.hard': 'Difícil',
+  'difficulty.expert': 'Expert',
+
+  'variant.classic': 'Clássico',
+  'variant.classic.description': 'Linhas, colunas e blocos',
+  'variant.diagonal': 'Diagonal',
+  'variant.diagonal.description': 'As duas diagonais também têm todos os dígitos',
+  'variant.jigsaw': 'Jigsaw',
+  'variant.jigsaw.description': 'Blocos com formatos irregulares',
+  'variant.killer': 'Killer',
+  'variant.killer.description': 'Gaiolas somam o número indicado, sem repetir',
+  'variant.antiKnight': 'Anti-Cavalo',
+  'variant.antiKnight.description': 'Um salto de cavalo nunca repete dígito',
+  'variant.antiKing': 'Anti-Rei',
+  'variant.antiKing.description': 'Células vizinhas na diagonal nunca repetem',
+
+  'technique.nakedSingle': 'Candidato Único',
+  'technique.hiddenSingle': 'Posição Única',
+  'technique.nakedPair': 'Par Nu',
+  'technique.nakedTriple': 'Trio Nu',
+  'technique.hiddenPair': 'Par Oculto',
+  'technique.hiddenTriple': 'Trio Oculto',
+  'technique.pointingPair': 'Par Apontador',
+  'technique.boxLineReduction': 'Redução Bloco/Linha',
+  'technique.xWing': 'X-Wing',
+  'technique.swordfish': 'Swordfish',
+  'technique.xyWing': 'XY-Wing',
+  'technique.cageCombination': 'Combinação da Gaiola',
+  'technique.guessing': 'Tentativa e erro',
+
+  'common.close': 'Fechar',
+  'common.cancel': 'Cancelar',
+  'common.import': 'Importar',
+  'common.export': 'Exportar',
+
+  'cell.label': 'L{row}C{col}',
+  'cell.position': 'Linha {row}, coluna {col}',
+  'cell.fixed': '{digit}, fixo',
+  'cell.empty': 'vazia',
+  'cell.error': 'erro',
+  'cell.candidates': 'candidatos {digits}',
+  'cell.corners': 'cantos {digits}',
+  'cell.color': 'cor {color}',
+
+  'hint.lookAtRegion': 'Observe a área destacada',
+  'hint.placement': 'Coloque {digit} em {cell}.',
+  'hint.elimination': '{digit} de {cell}',
+  'hint.eliminations': 'Células {cells} com {digits}: remova {removed}.',
+  'hint.more': 'Mais',
+  'hint.apply': 'Aplicar',
+
+  'check.none': 'Nenhum erro encontrado.',
+  'check.wrong_one': '{count} jogada errada marcada.',
+  'check.wrong_other': '{count} jogadas erradas marcadas.',
+
+  'announce.hintRegion': 'Dica: observe a área destacada.',
+  'announce.hintTechnique': 'Dica: {technique}.',
+  'announce.paused': 'Jogo pausado.',
+  'announce.running': 'Jogo em andamento.',
+  'announce.won': 'Parabéns! Quebra-cabeça resolvido em {time}.',
+  'announce.lost_one': 'Fim de jogo: {count} erro.',
+  'announce.lost_other': 'Fim de jogo: {count} erros.',
+  'announce.timeout': 'Fim de jogo: o tempo acabou.',
+
+  'newGame.title': 'Novo Jogo',
+  'newGame.mode': 'Modo',
+  'newGame.variant': 'Variante',
+  'newGame.size': 'Tamanho',
+  'newGame.saves': 'Jogos salvos',
+  'newGame.code': 'Código do jogo',
+  'newGame.open': 'Abrir',
+  'newGame.invalidCode': 'Código inválido.',
+  'newGame.generating': 'Gerando {difficulty}...',
+
+  'save.finished': 'Finalizado',
+  'save.empty': 'Vazio',
+  'save.current': 'Atual',
+  'save.continue': 'Continuar',
+  'save.newGame': 'Novo jogo',
+  'save.delete': 'Apagar',
+
+  'confirmReset.title': 'Reiniciar Jogo?',
+  'confirmReset.message': 'Você perderá o progresso da partida atual.',
+  'confirmReset.confirm': 'Reiniciar',
+
+  'game.ratingTitle': 'Técnica mais difícil necessária',
+  'game.points': '{score} pts',
+  'game.copyCode': 'Copiar código do jogo',
+  'game.toggleTheme': 'Alternar tema',
+  'game.mute': 'Silenciar sons',
+  'game.unmute': 'Ativar sons',
+  'game.exitFocus': 'Sair do modo foco',
+  'game.errors': 'Erros',
+  'game.time': 'Tempo',
+  'game.timeLeft': 'Restante',
+  'game.lives': 'Vidas',
+  'game.progress': 'Progresso',
+  'game.board': 'Tabuleiro',
+  'game.paused': 'Pausado',
+  'game.review': 'Revisar partida',
+  'game.analysis': 'Analisar erros e ritmo',
+
+  'won.title': 'PARABÉNS!',
+  'won.playAgain': 'Jogar Novamente',
+  'won.timeLeft': 'Sobraram {time}',
+  'lost.title': 'GAME OVER',
+  'lost.message_one': 'Você cometeu {count} erro.',
+  'lost.message_other': 'Você cometeu {count} erros.',
+  'lost.tryAgain': 'Tentar Novamente',
+  'lost.timeoutTitle': 'TEMPO ESGOTADO',
+  'lost.timeoutMessage': 'Você preencheu {progress}% do tabuleiro.',
+
+  'controls.undo': 'Voltar',
+  'controls.redo': 'Refazer',
+  'controls.erase': 'Apagar',
+  'controls.notes': 'Notas',
+  'controls.check': 'Verificar',
+  'controls.hint': 'Dica',
+  'controls.pause': 'Pausar',
+  'controls.resume': 'Resumir',
+
+  'notes.center': 'Centro',
+  'notes.corner': 'Canto',
+  'notes.cornerShortcut': 'Shift + dígito',
+  'notes.candidates': 'Candidatos',
+  'notes.candidatesTitle': 'Preenche as notas centrais com todos os candidatos válidos',
+  'notes.color': 'Cor {color}',
+  'notes.clearColor': 'Remover cor',
+
+  'stats.title': 'Estatísticas',
+  'stats.wins': 'Vitórias',
+  'stats.streak': 'Sequência',
+  'stats.longestStreak': 'Recorde',
+  'stats.level': 'Nível',
+  'stats.played': 'Jogos',
+  'stats.bestTime': 'Melhor',
+  'stats.averageTime': 'Média',
+  'stats.recent': 'Partidas recentes',
+  'stats.noGames': 'Nenhuma partida concluída ainda.',
+  'stats.errors_one': '{count} erro',
+  'stats.errors_other': '{count} erros',
+  'stats.hints_one': '{count} dica',
+  'stats.hints_other': '{count} dicas',
+
+  'daily.title': 'Desafio Diário',
+  'daily.badge': 'Diário',
+  'daily.today': 'Hoje',
+  'daily.play': 'Jogar',
+  'daily.won': 'Concluído em {time}',
+  'daily.lost': 'Não concluído',
+  'daily.inProgress': 'Em andamento',
+  'daily.notPlayed': 'Não jogado',
+  'daily.locked': 'Já jogado: o desafio não pode ser refeito',
+  'daily.onlyToday': 'Só o desafio de hoje pode ser jogado.',
+  'daily.previousMonth': 'Mês anterior',
+  'daily.nextMonth': 'Próximo mês',
+  'daily.streakDays_one': '{count} dia seguido',
+  'daily.streakDays_other': '{count} dias seguidos',
+
+  'editor.title': 'Editor de jogos',
+  'editor.open': 'Digitar um jogo',
+  'editor.givens_one': '{count} número inicial',
+  'editor.givens_other': '{count} números iniciais',
+  'editor.conflicts_one': '{count} conflito',
+  'editor.conflicts_other': '{count} conflitos',
+  'editor.none': 'Sem solução',
+  'editor.unique': 'Solução única',
+  'editor.multiple': 'Mais de uma solução',
+  'editor.unknown': 'Não deu para verificar a solução',
+  'editor.clueUnique': '{digit} em {cell} deixa a solução única.',
+  'editor.clueNotEnough': '{digit} em {cell}; um número só não basta, peça outro.',
+  'editor.clear': 'Limpar',
+  'editor.suggest': 'Sugerir',
+  'editor.suggestTitle': 'Acrescenta um número que elimina as outras soluções',
+  'editor.play': 'Jogar',
+
+  'booklet.title': 'Caderno para imprimir',
+  'booklet.open': 'Caderno para imprimir',
+  'booklet.fewer': 'Menos jogos {difficulty}',
+  'booklet.more': 'Mais jogos {difficulty}',
+  'booklet.perPage': 'Jogos por página',
+  'booklet.solutionsNote': 'As soluções vêm no final, seis por página.',
+  'booklet.generate': 'Gerar caderno',
+  'booklet.generating': 'Gerando {current} de {total}...',
+  'booklet.pages_one': '{count} página',
+  'booklet.pages_other': '{count} páginas',
+  'booklet.print': 'Imprimir',
+  'booklet.download': 'Baixar a página {page} em SVG',
+  'booklet.puzzlesTitle': 'Neon Sudoku — Jogos',
+  'booklet.solutionsTitle': 'Neon Sudoku — Soluções',
+  'booklet.page': 'Página {page}',
+
+  'race.open': 'Corrida com amigos',
+  'race.title': 'Corrida',
+  'race.relayHint': 'Todos se conectam ao mesmo relay local. Para iniciá-lo, rode na pasta do projeto:',
+  'race.server': 'Servidor',
+  'race.room': 'Sala',
+  'race.name': 'Seu nome',
+  'race.join': 'Entrar na sala',
+  'race.rejected': 'O relay recusou a entrada: a sala está cheia ou o código é inválido.',
+  'race.invalidUrl': 'Endereço inválido: use ws://host:porta.',
+  'race.roomCode': 'Sala {room}',
+  'race.connecting': 'Conectando...',
+  'race.reconnecting': 'Reconectando...',
+  'race.you': 'você',
+  'race.out': 'Fora',
+  'race.difficulty': 'Dificuldade',
+  'race.start': 'Largar',
+  'race.rematch': 'Revanche',
+  'race.leave': 'Sair da sala',
+  'race.running': 'Corrida em andamento ({difficulty}).',
+  'race.waiting': 'Aguardando a largada...',
+  'race.alone': 'Nenhum adversário na sala.',
+  'race.over': 'Fim da corrida',
+  'race.youWon': 'Você venceu a corrida!',
+  'race.wonBy': '{name} venceu a corrida',
+  'race.wonIn': '{name} venceu em {time}',
+  'race.noWinner': 'Ninguém terminou: todos atingiram o limite de erros.',
+  'controls.hintsLeft_one': '{count} dica restante',
+  'controls.hintsLeft_other': '{count} dicas restantes',
+  'hint.budgetUsed': 'Você já usou todas as dicas desta partida.',
+  'score.breakdown': 'Jogadas {entries} • Grupos {units} • Tempo {speed} • Erros {errors} • Dicas {hints} • x{multiplier}',
+  'score.leaderboard': 'Top 10 • {difficulty}',
+  'mode.normal': 'Normal',
+  'mode.normal.description': 'Três erros e dicas limitadas.',
+  'mode.zen': 'Zen',
+  'mode.zen.description': 'Sem limite de erros nem de dicas, fora do ranking.',
+  'mode.countdown': 'Relógio',
+  'mode.countdown.description': 'Resolva antes que o tempo acabe.',
+  'mode.survival': 'Sobrevivência',
+  'mode.survival.description': 'Jogos em sequência com as mesmas cinco vidas.',
+  'mode.blitz': 'Blitz',
+  'mode.blitz.description': 'Relógio curto; cada linha, coluna ou caixa completa dá +{seconds}s.',
+  'blitz.bonus_one': '{count} grupo completo: +{seconds}s',
+  'blitz.bonus_other': '{count} grupos completos: +{seconds}s',
+  'survival.clearedTitle': 'JOGO {count} CONCLUÍDO!',
+  'survival.livesLeft_one': '{count} vida restante',
+  'survival.livesLeft_other': '{count} vidas restantes',
+  'survival.next': 'Próximo Jogo',
+  'survival.stop': 'Encerrar e escolher outro jogo',
+  'survival.overTitle': 'SEM VIDAS',
+  'survival.cleared_one': 'Você concluiu {count} jogo nesta sequência.',
+  'survival.cleared_other': 'Você concluiu {count} jogos nesta sequência.',
+  'analysis.title': 'Análise da partida',
+  'analysis.pace': 'Ritmo (casas por minuto)',
+  'analysis.average': 'Média {rate}/min',
+  'analysis.placed_one': '{count} casa',
+  'analysis.placed_other': '{count} casas',
+  'analysis.errors_one': '{count} erro',
+  'analysis.errors_other': '{count} erros',
+  'analysis.noMistakes': 'Nenhum erro nesta partida.',
+  'analysis.entry': '{cell}: {value} no lugar de {correct}',
+  'analysis.technique': 'Técnica que encontraria o dígito: {technique}',
+  'analysis.noTechnique': 'Nenhuma técnica conhecida chegava a esta casa naquele momento.',
+  'analysis.showMove': 'Ver no replay',
+  'theme.neon': 'Neon',
+  'theme.magenta': 'Magenta',
+  'theme.lime': 'Lima',
+  'theme.violet': 'Violeta',
+  'theme.highContrast': 'Alto contraste',
+  'theme.deuteranopia': 'Deuteranopia',
+  'theme.protanopia': 'Protanopia',
+  'theme.create': 'Criar tema',
+  'theme.name': 'Nome do tema',
+  'theme.untitled': 'Meu tema',
+  'theme.save': 'Salvar tema',
+  'theme.edit': 'Editar {name}',
+  'theme.delete': 'Apagar {name}',
+  'theme.color.accent': 'Destaque',
+  'theme.color.entry': 'Jogadas',
+  'theme.color.error': 'Erros',
+  'theme.color.success': 'Acertos',
+  'transfer.title': 'Importar / Exportar',
+  'transfer.placeholder': 'Cole aqui uma linha de 81 caracteres, uma grade .sdk/.ss ou um JSON',
+  'transfer.importAndPlay': 'Importar e jogar',
+  'transfer.onlyClassic': 'Exportação disponível apenas para o Sudoku clássico 9x9.',
+  'transfer.includeEntries': 'Incluir minhas jogadas',
+  'transfer.copy': 'Copiar',
+  'transfer.download': 'Baixar',
+  'format.line': 'Linha (81 caracteres)',
+  'format.sdk': 'SadMan (.sdk)',
+  'format.ss': 'Simple Sudoku (.ss)',
+  'format.json': 'JSON com notas e progresso',
+
+  'replay.title': 'Revisão da partida',
+  'replay.step': 'Jogada {step} de {total}',
+  'replay.start': 'Posição inicial',
+  'replay.note': '{cells} nota {digit}',
+  'replay.cornerNote': '{cells} nota de canto {digit}',
+  'replay.erase_one': '{cells} apagada',
+  'replay.erase_other': '{cells} apagadas',
+  'replay.hint': 'Dica: {cell} = {digit}',
+  'replay.hintNotes': 'Dica: notas em {cells}',
+  'replay.check_one': 'Verificação: {count} erro',
+  'replay.check_other': 'Verificação: {count} erros',
+  'replay.candidates': 'Candidatos automáticos',
+  'replay.color': '{cells} colorida',
+  'replay.uncolor': '{cells} sem cor',
+
+  'settings.title': 'Configurações',
+  'settings.language': 'Idioma',
+  'settings.theme': 'Tema',
+  'settings.darkMode': 'Modo escuro',
+  'settings.darkMode.description': 'Tema escuro com destaques neon',
+  'settings.highlightIdentical': 'Destacar iguais',
+  'settings.highlightIdentical.description': 'Realça as células com o mesmo dígito da selecionada',
+  'settings.autoCheckErrors': 'Verificar erros ao jogar',
+  'settings.autoCheckErrors.description': 'Desligado, os erros só aparecem ao tocar em Verificar e não contam no limite',
+  'settings.smartFocus': 'Foco inteligente',
+  'settings.smartFocus.description': 'Escurece tudo menos as células onde o dígito selecionado ainda cabe',
+  'settings.keepCandidatesUpdated': 'Manter candidatos atualizados',
+  'settings.keepCandidatesUpdated.description': 'Ao apagar um número, as notas centrais das células afetadas são recalculadas',
+  'settings.neuralFeedback': 'Feedback neural',
+  'settings.neuralFeedback.description': 'Brilho, sons e vibração nas jogadas, e pulso ao completar linhas, colunas e blocos',
+  'settings.volume': 'Volume',
+  'settings.focusMode': 'Modo foco',
+  'settings.focusMode.description': 'Esconde o placar e os controles desta partida; o teclado continua funcionando',
+
+  'shortcuts.title': 'Atalhos do teclado',
+  'shortcuts.digit': 'dígito',
+  'shortcuts.move': 'Mover a seleção (dá a volta nas bordas)',
+  'shortcuts.extend': 'Estender a seleção',
+  'shortcuts.emptyCell': 'Célula vazia anterior / seguinte',
+  'shortcuts.box': 'Bloco anterior / seguinte',
+  'shortcuts.row': 'Início / fim da linha',
+  'shortcuts.enterDigit': 'Inserir dígito',
+  'shortcuts.cornerNote': 'Nota de canto',
+  'shortcuts.erase': 'Apagar',
+  'shortcuts.notes': 'Alternar notas',
+  'shortcuts.hint': 'Dica',
+  'shortcuts.check': 'Verificar (com a verificação automática desligada)',
+  'shortcuts.pause': 'Pausar / continuar',
+  'shortcuts.newGame': 'Novo jogo',
+  'shortcuts.mute': 'Silenciar / ativar sons',
+  'shortcuts.undo': 'Desfazer / refazer',
+  'shortcuts.clearSelection': 'Limpar a seleção múltipla',
+  'shortcuts.help': 'Mostrar esta ajuda',
+
+  'error.unexpectedChar': 'Caractere inesperado: "{char}".',
+  'error.cellCount': 'Formato inválido: esperadas 81 células, encontradas {count}.',
+  'error.invalidJson': 'JSON inválido.',
+  'error.unknownJson': 'JSON não reconhecido: faltam os campos "format" e "givens".',
+  'error.notesLength': 'JSON inválido: "notes" deve ter 81 listas.',
+  'error.notesList': 'JSON inválido: cada item de "notes" deve ser uma lista.',
+  'error.invalidProgress': 'JSON inválido: "time" e "errors" devem ser inteiros não negativos.',
+  'error.conflict': 'Conflito: o {digit} em L{row}C{col} se repete na linha, coluna ou bloco.',
+  'error.nothingToImport': 'Nada para importar.',
+  'error.noSolution': 'O quebra-cabeça não tem solução.',
+  'error.multipleSolutions': 'O quebra-cabeça tem mais de uma solução.',
+  'error.entriesOnGivens': 'JSON inválido: há jogadas sobre números fixos.',
+  'error.unknownStatsFile': 'Arquivo de estatísticas não reconhecido.',
+  'error.invalidGames': 'O arquivo contém partidas inválidas.',
+} as const;
+
+export default ptBR;
@@ -0,0 +1,152 @@
+/**
+ * Local relay for head-to-head races: `npm run race` (port 8787, or RACE_PORT).
+ *
+ * Players join a room by name. Any of them can start a race, which hands the same
+ * difficulty and seed to everybody; each client generates the puzzle itself and only
+ * streams its progress back, so nobody ever sees the others' digits. The race ends on
+ * the first correct completion, or when everyone but one player has hit maxErrors.
+ *
+ * Client -> relay:
+ *   { type: 'join', room, name, playerId? }   playerId resumes a dropped connection
+ *   { type: 'start', difficulty }
+ *   { type: 'progress', round, progress, errors, maxErrors, finishTime, out }
+ *   { type: 'leave' }
+ * Relay -> client:
+ *   { type: 'welcome', playerId }
+ *   { type: 'state', race }                   see RaceState in types.ts
+ *   { type: 'rejected', reason }
+ */
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.RACE_PORT) || 8787;
+const DIFFICULTIES = ['easy', 'medium', 'hard', 'expert'];
+const MAX_PLAYERS = 8;
+// A dropped player keeps their place for a while, so a reconnect resumes the same race
+const RECONNECT_GRACE_MS = 60_000;
+
+/** @type {Map<string, { room: string, status: string, difficulty: string, seed: number | null, round: number, winner: string | null, players: Map<string, any> }>} */
+const rooms = new Map();
+
+const publicState = room => ({
+  room: room.room,
+  status: room.status,
+  difficulty: room.difficulty,
+  seed: room.seed,
+  round: room.round,
+  winner: room.winner,
+  players: [...room.players.values()].map(({ socket, dropTimer, ...player }) => player),
+});
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = room => {
+  const message = { type: 'state', race: publicState(room) };
+  room.players.forEach(player => send(player.socket, message));
+};
+
+const finishIfDecided = room => {
+  if (room.status !== 'running') return;
+  const players = [...room.players.values()];
+  const finisher = players.find(p => p.finishTime !== null);
+  const standing = players.filter(p => !p.out);
+  if (finisher) room.winner = finisher.id;
+  else if (players.length > 1 && standing.length === 1) room.winner = standing[0].id;
+  else if (standing.length > 0) return;
+  room.status = 'finished';
+};
+
+const removePlayer = (room, id) => {
+  room.players.delete(id);
+  if (room.players.size === 0) rooms.delete(room.room);
+  else {
+    finishIfDecided(room);
+    broadcast(room);
+  }
+};
+
+const handleJoin = (socket, session, { room: code, name, playerId }) => {
+  const roomCode = String(code ?? '').trim().toUpperCase().slice(0, 12);
+  if (!roomCode) return send(socket, { type: 'rejected', reason: 'room' });
+  let room = rooms.get(roomCode);
+  if (!room) {
+    room = { room: roomCode, status: 'lobby', difficulty: 'easy', seed: null, round: 0, winner: null, players: new Map() };
+    rooms.set(roomCode, room);
+  }
+
+  let player = playerId ? room.players.get(playerId) : undefined;
+  if (player) {
+    clearTimeout(player.dropTimer);
+    if (player.socket !== socket) player.socket?.close();
+  } else {
+    if (room.players.size >= MAX_PLAYERS) return send(socket, { type: 'rejected', reason: 'full' });
+    // Latecomers get the running race too, only starting behind
+    player = { id: randomUUID(), name: '', progress: 0, errors: 0, maxErrors: 0, finishTime: null, out: false, connected: true };
+    room.players.set(player.id, player);
+  }
+  Object.assign(player, { name: String(name ?? '').trim().slice(0, 20) || `#${room.players.size}`, socket, connected: true, dropTimer: undefined });
+  session.room = room;
+  session.playerId = player.id;
+  send(socket, { type: 'welcome', playerId: player.id });
+  broadcast(room);
+};
+
+const handleStart = (room, { difficulty }) => {
+  if (room.status === 'running' || !DIFFICULTIES.includes(difficulty)) return;
+  Object.assign(room, { status: 'running', difficulty, seed: Math.floor(Math.random() * 0x100000000), round: room.round + 1, winner: null });
+  room.players.forEach(player => Object.assign(player, { progress: 0, errors: 0, finishTime: null, out: false }));
+  broadcast(room);
+};
+
+const handleProgress = (room, player, { round, progress, errors, maxErrors, finishTime, out }) => {
+  if (room.status !== 'running' || round !== room.round || player.out || player.finishTime !== null) return;
+  player.progress = Math.max(0, Math.min(100, Math.floor(Number(progress) || 0)));
+  player.errors = Math.max(0, Math.floor(Number(errors) || 0));
+  player.maxErrors = Math.max(0, Math.floor(Number(maxErrors) || 0));
+  player.finishTime = typeof finishTime === 'number' ? finishTime : null;
+  player.out = out === true;
+  finishIfDecided(room);
+  broadcast(room);
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', socket => {
+  const session = { room: null, playerId: null };
+
+  socket.on('message', data => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    // Valid JSON is not necessarily a message: null, numbers and strings are dropped too
+    if (typeof message !== 'object' || message === null) return;
+    if (message.type === 'join') return handleJoin(socket, session, message);
+
+    const room = session.room;
+    const player = room?.players.get(session.playerId);
+    if (!player || player.socket !== socket) return;
+    if (message.type === 'start') handleStart(room, message);
+    else if (message.type === 'progress') handleProgress(room, player, message);
+    else if (message.type === 'leave') {
+      session.room = null;
+      removePlayer(room, player.id);
+    }
+  });
+
+  socket.on('close', () => {
+    const room = session.room;
+    const player = room?.players.get(session.playerId);
+    if (!player || player.socket !== socket) return;
+    player.connected = false;
+    player.socket = null;
+    player.dropTimer = setTimeout(() => removePlayer(room, player.id), RECONNECT_GRACE_MS);
+    broadcast(room);
+  });
+});
+
+server.on('listening', () => console.log(`Neon Sudoku race relay on ws://localhost:${PORT}`));
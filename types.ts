@@ -1,39 +1,248 @@
 
+// Stable ids, as stored in saves and statistics; the labels live in the message catalogs
 export enum Difficulty {
-  EASY = 'Fácil',
-  MEDIUM = 'Médio',
-  HARD = 'Difícil',
-  EXPERT = 'Expert'
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+  EXPERT = 'expert'
 }
 
+// How a game is won or lost, on top of the difficulty
+export enum GameMode {
+  NORMAL = 'normal', // Three mistakes
+  ZEN = 'zen', // No mistake or hint limit
+  COUNTDOWN = 'countdown', // A fixed time budget
+  SURVIVAL = 'survival', // Puzzles back to back sharing the same lives
+  BLITZ = 'blitz' // A short clock that every completed unit winds back up
+}
+
+export enum Variant {
+  CLASSIC = 'classic',
+  DIAGONAL = 'diagonal',
+  JIGSAW = 'jigsaw',
+  KILLER = 'killer',
+  ANTI_KNIGHT = 'antiKnight',
+  ANTI_KING = 'antiKing'
+}
+
+// Side of the grid; boxes are 2x2, 2x3 (rows x columns), 3x3 and 4x4 respectively
+export type GridSize = 4 | 6 | 9 | 16;
+
+export interface Cage {
+  cells: number[]; // Flat indices (row * size + col)
+  sum: number;
+}
+
+export interface VariantLayout {
+  variant: Variant;
+  size: GridSize;
+  regions: number[]; // Region id of every cell: the 3x3 boxes, or irregular shapes in Jigsaw
+  cages: Cage[];
+}
+
+// Center marks list a cell's candidates; corner (Snyder) marks flag the few cells of a
+// unit where a digit can still go
+export type NoteLayer = 'center' | 'corner';
+
 export interface CellData {
   value: number | null;
   fixed: boolean;
-  notes: Set<number>;
+  notes: Set<number>; // Center marks
+  cornerNotes: Set<number>;
+  color: number | null; // Index into the highlight palette
   error: boolean;
 }
 
+export interface NoteChange {
+  row: number;
+  col: number;
+  notes: number[];
+}
+
+// `error` records whether an entry was wrong; `ungraded` entries were made with live
+// checking off, so the mistake stays hidden (and uncounted) until a 'check' reveals it
+export type GameAction =
+  | { type: 'place'; row: number; col: number; value: number; error: boolean; ungraded?: boolean; time: number }
+  | { type: 'note'; layer: NoteLayer; cells: [number, number][]; value: number; time: number }
+  | { type: 'erase'; cells: [number, number][]; notes?: NoteChange[]; time: number } // `notes` refreshes kept-up-to-date candidates
+  | { type: 'hint'; placement: CellDigit | null; notes: NoteChange[]; time: number }
+  | { type: 'check'; cells: [number, number][]; time: number }
+  | { type: 'candidates'; notes: NoteChange[]; time: number }
+  | { type: 'color'; cells: [number, number][]; color: number | null; time: number };
+
+export interface PuzzleRating {
+  hardestTechnique: HintTechnique | null;
+  score: number;
+  requiresGuessing: boolean;
+}
+
+export interface GeneratedPuzzle {
+  puzzle: (number | null)[][];
+  solution: number[][];
+  rating: PuzzleRating;
+  seed: number;
+  layout: VariantLayout;
+}
+
 export interface GameState {
+  id: string;
   board: CellData[][];
   solution: number[][];
   difficulty: Difficulty;
+  layout: VariantLayout;
+  rating: PuzzleRating;
+  seed: number | null; // null for imported puzzles
   time: number;
+  timeLimit: number | null; // Countdown and Blitz: the game is lost once `time` reaches it
+  bonusUnits: number[]; // Blitz: units (indexes into the layout's units) that already added their seconds
   errors: number;
   maxErrors: number;
+  hintsUsed: number;
+  maxHints: number; // Hint budget of the difficulty; undoing a hint does not give it back
   isPaused: boolean;
   selectedCell: [number, number] | null;
-  history: string[]; // Serialized snapshots for undo
-  zenMode: boolean;
+  initialBoard: CellData[][]; // Board before the first action; replaying `actions` rebuilds `board`
+  actions: GameAction[];
+  actionCursor: number; // Actions at or past the cursor were undone and can be redone
+  mode: GameMode;
+  chain: number; // Survival: puzzles already cleared in this run
   focusMode: boolean;
   noteMode: boolean;
+  noteLayer: NoteLayer;
   isGameOver: boolean;
   isWon: boolean;
+  daily: string | null; // Date (YYYY-MM-DD) of a daily challenge
+}
+
+export interface GameRecord {
+  id: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  time: number;
+  errors: number;
+  hintsUsed: number;
+  won: boolean;
+  date: string; // ISO timestamp of when the game ended
+}
+
+export interface LeaderboardEntry {
+  gameId: string;
+  score: number;
+  time: number;
+  errors: number;
+  hintsUsed: number;
+  date: string; // ISO timestamp of the win
+}
+
+export interface DailyResult {
+  date: string; // Local calendar date, YYYY-MM-DD
+  difficulty: Difficulty;
+  gameId: string;
+  finished: boolean;
+  won: boolean;
+  time: number;
+}
+
+// A player in a head-to-head race, as the relay reports it. Digits are never shared
+export interface RacePlayer {
+  id: string;
+  name: string;
+  progress: number; // Percentage of cells filled in correctly
+  errors: number;
+  maxErrors: number;
+  finishTime: number | null; // Seconds, once the puzzle is solved
+  out: boolean; // Reached maxErrors
+  connected: boolean;
+}
+
+export interface RaceState {
+  room: string;
+  status: 'lobby' | 'running' | 'finished';
+  difficulty: Difficulty;
+  seed: number | null; // Handed out when the race starts
+  round: number; // Bumped on every start, so a rematch is told apart from the previous race
+  winner: string | null; // Player id; null while running, or when everybody lost
+  players: RacePlayer[];
+}
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+// Built-in color themes; the colors themselves live in utils/themes.ts
+export enum Palette {
+  NEON = 'neon',
+  MAGENTA = 'magenta',
+  LIME = 'lime',
+  VIOLET = 'violet',
+  HIGH_CONTRAST = 'highContrast',
+  DEUTERANOPIA = 'deuteranopia', // These two never tell errors apart by red against green
+  PROTANOPIA = 'protanopia'
+}
+
+// Base colors of a theme, as #rrggbb; lighter and darker shades are derived from them
+export interface ThemeColors {
+  accent: string; // Selection, buttons and highlights
+  entry: string; // Digits the player filled in
+  error: string;
+  success: string;
+  easy: string;
+  medium: string;
+  hard: string;
+  expert: string;
+}
+
+export interface CustomTheme {
+  id: string;
+  name: string;
+  colors: ThemeColors;
 }
 
 export interface Settings {
+  language: Locale;
   darkMode: boolean;
+  theme: string; // A Palette, or the id of one of the custom themes
+  customThemes: CustomTheme[];
   highlightIdentical: boolean;
   autoCheckErrors: boolean;
   smartFocus: boolean;
-  neuralFeedback: boolean;
+  neuralFeedback: boolean; // Glow, sounds and vibration
+  volume: number; // 0 to 1
+  muted: boolean;
+  keepCandidatesUpdated: boolean;
+}
+
+export enum HintTechnique {
+  NAKED_SINGLE = 'nakedSingle',
+  HIDDEN_SINGLE = 'hiddenSingle',
+  NAKED_PAIR = 'nakedPair',
+  NAKED_TRIPLE = 'nakedTriple',
+  HIDDEN_PAIR = 'hiddenPair',
+  HIDDEN_TRIPLE = 'hiddenTriple',
+  POINTING_PAIR = 'pointingPair',
+  BOX_LINE_REDUCTION = 'boxLineReduction',
+  X_WING = 'xWing',
+  SWORDFISH = 'swordfish',
+  XY_WING = 'xyWing',
+  CAGE_COMBINATION = 'cageCombination'
+}
+
+export type UnitKind = 'row' | 'col' | 'box' | 'diagonal' | 'cage';
+
+export interface HintUnit {
+  kind: UnitKind;
+  index: number;
+}
+
+export interface CellDigit {
+  row: number;
+  col: number;
+  value: number;
+}
+
+export interface Hint {
+  technique: HintTechnique;
+  units: HintUnit[]; // Where the player should look first
+  cells: [number, number][]; // Cells that form the pattern
+  digits: number[];
+  placement: CellDigit | null;
+  eliminations: CellDigit[];
 }
@@ -0,0 +1,90 @@
+// Sounds are synthesized with the Web Audio API, so the game ships no audio files
+
+export type FeedbackCue = 'correct' | 'error' | 'note' | 'unit' | 'digit' | 'won' | 'lost';
+
+// When several cues come out of the same move (the last digit of a row also wins the game),
+// only the most significant one plays. An error outranks the completions: a wrong entry can
+// still bring a digit to its full count
+const CUE_PRIORITY: FeedbackCue[] = ['won', 'lost', 'error', 'digit', 'unit', 'correct', 'note'];
+
+// navigator.vibrate patterns, in milliseconds (vibration, pause, vibration...)
+const VIBRATION: Record<FeedbackCue, number | number[]> = {
+  correct: 12,
+  error: [70, 50, 70],
+  note: 6,
+  unit: [25, 30, 25],
+  digit: [40, 30, 40, 30, 40],
+  won: [90, 60, 90, 60, 200],
+  lost: [350],
+};
+
+interface Tone {
+  freq: number;
+  start: number; // Seconds after the cue begins
+  duration: number;
+  type?: OscillatorType;
+  gain?: number;
+  slideTo?: number; // Frequency at the end of the tone
+}
+
+const TONES: Record<FeedbackCue, Tone[]> = {
+  correct: [{ freq: 880, start: 0, duration: 0.09 }],
+  error: [{ freq: 190, start: 0, duration: 0.22, type: 'sawtooth', gain: 0.35, slideTo: 110 }],
+  note: [{ freq: 1320, start: 0, duration: 0.04, type: 'triangle', gain: 0.4 }],
+  unit: [660, 880, 1100].map((freq, k) => ({ freq, start: k * 0.06, duration: 0.1 })),
+  digit: [
+    { freq: 990, start: 0, duration: 0.35, type: 'triangle' },
+    { freq: 1485, start: 0.05, duration: 0.35, gain: 0.5 },
+  ],
+  won: [523, 659, 784, 1047].map((freq, k) => ({ freq, start: k * 0.12, duration: k === 3 ? 0.6 : 0.14, type: 'triangle' as OscillatorType })),
+  lost: [392, 330, 262].map((freq, k) => ({ freq, start: k * 0.22, duration: 0.26, type: 'triangle' as OscillatorType, slideTo: freq * 0.94 })),
+};
+
+let context: AudioContext | null = null;
+let suspended = false;
+
+// Browsers only let an AudioContext start after a user gesture; the first cue comes from one
+const audioContext = () => {
+  if (!context && typeof AudioContext !== 'undefined') context = new AudioContext();
+  return context;
+};
+
+const playTone = (ctx: AudioContext, tone: Tone, volume: number) => {
+  const at = ctx.currentTime + tone.start;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = tone.type ?? 'sine';
+  osc.frequency.setValueAtTime(tone.freq, at);
+  if (tone.slideTo) osc.frequency.exponentialRampToValueAtTime(tone.slideTo, at + tone.duration);
+  // A quick attack and an exponential release keep the tones from clicking
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, 0.3 * volume * (tone.gain ?? 1)), at + 0.01);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + tone.duration);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(at);
+  osc.stop(at + tone.duration + 0.02);
+};
+
+export const strongestCue = (cues: FeedbackCue[]): FeedbackCue | null => CUE_PRIORITY.find(cue => cues.includes(cue)) ?? null;
+
+// `volume` goes from 0 to 1; nothing plays while the audio is suspended for a pause
+export const playCue = (cue: FeedbackCue, volume: number) => {
+  if (suspended || volume <= 0) return;
+  const ctx = audioContext();
+  if (!ctx) return;
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  TONES[cue].forEach(tone => playTone(ctx, tone, volume));
+};
+
+export const vibrateCue = (cue: FeedbackCue) => {
+  if (suspended || typeof navigator === 'undefined' || !navigator.vibrate) return;
+  navigator.vibrate(VIBRATION[cue]);
+};
+
+// Pausing cuts whatever is still ringing and keeps new cues quiet until the game resumes
+export const setAudioSuspended = (value: boolean) => {
+  suspended = value;
+  if (!context) return;
+  (value ? context.suspend() : context.resume()).catch(() => {});
+  if (value && typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(0);
+};
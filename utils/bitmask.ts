@@ -0,0 +1,16 @@
+// Digit sets are stored as bitmasks: bit n set means digit n is in the set.
+
+// Every digit of a size x size grid, 1 to size
+export const digitMask = (size: number) => (1 << (size + 1)) - 2;
+
+export const bitCount = (mask: number) => {
+  let n = 0;
+  while (mask) { mask &= mask - 1; n++; }
+  return n;
+};
+
+export const digitsOf = (mask: number) => {
+  const digits: number[] = [];
+  for (let n = 1; n <= 16; n++) if (mask & (1 << n)) digits.push(n);
+  return digits;
+};
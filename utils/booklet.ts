@@ -0,0 +1,91 @@
+import { GeneratedPuzzle } from '../types';
+
+export type PuzzlesPerPage = 2 | 4 | 6;
+
+export const PUZZLES_PER_PAGE: PuzzlesPerPage[] = [2, 4, 6];
+
+// A4 portrait, in millimetres, so the printed grids keep their size on any printer
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+const HEADER = 12;
+const CAPTION = 7;
+
+// Columns and rows of grids on a page
+const PAGE_GRID: Record<PuzzlesPerPage, [number, number]> = { 2: [1, 2], 4: [2, 2], 6: [2, 3] };
+
+export interface BookletEntry {
+  puzzle: GeneratedPuzzle;
+  caption: string; // Code and rating, already in the player's language
+  solutionCaption: string;
+}
+
+export interface BookletTitles {
+  puzzles: string;
+  solutions: string;
+  page: (page: number) => string;
+}
+
+// Coordinates rounded to a hundredth of a millimetre keep the markup short
+const mm = (n: number) => Math.round(n * 100) / 100;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Only classic 9x9 puzzles are printed: box lines every third cell
+const gridSvg = (values: (number | null)[][], givens: (number | null)[][], x: number, y: number, side: number) => {
+  const cell = side / 9;
+  const lines = Array.from({ length: 10 }, (_, k) => {
+    const offset = mm(k * cell);
+    const width = k % 3 === 0 ? 0.6 : 0.2;
+    return `<line x1="${mm(x)}" y1="${mm(y + offset)}" x2="${mm(x + side)}" y2="${mm(y + offset)}" stroke="#000" stroke-width="${width}" stroke-linecap="square"/>`
+      + `<line x1="${mm(x + offset)}" y1="${mm(y)}" x2="${mm(x + offset)}" y2="${mm(y + side)}" stroke="#000" stroke-width="${width}" stroke-linecap="square"/>`;
+  }).join('');
+  const digits = values.flatMap((row, r) => row.flatMap((value, c) => {
+    if (value === null) return [];
+    const given = givens[r][c] !== null;
+    return [`<text x="${mm(x + (c + 0.5) * cell)}" y="${mm(y + (r + 0.5) * cell)}" font-size="${mm(cell * 0.62)}" font-weight="${given ? 700 : 400}" fill="${given ? '#000' : '#666'}" text-anchor="middle" dominant-baseline="central">${value}</text>`];
+  })).join('');
+  return lines + digits;
+};
+
+const pageSvg = (title: string, footer: string, items: { values: (number | null)[][]; givens: (number | null)[][]; caption: string }[], perPage: PuzzlesPerPage) => {
+  const [cols, rows] = PAGE_GRID[perPage];
+  const slotWidth = (PAGE_WIDTH - 2 * MARGIN) / cols;
+  const slotHeight = (PAGE_HEIGHT - 2 * MARGIN - HEADER) / rows;
+  const side = Math.min(slotWidth, slotHeight - CAPTION) * 0.88;
+
+  const body = items.map((item, k) => {
+    const slotX = MARGIN + (k % cols) * slotWidth;
+    const slotY = MARGIN + HEADER + Math.floor(k / cols) * slotHeight;
+    const x = slotX + (slotWidth - side) / 2;
+    const y = slotY + (slotHeight - CAPTION - side) / 2;
+    return `<text x="${mm(x)}" y="${mm(y - 2)}" font-size="3.2" fill="#333">${escapeXml(item.caption)}</text>${gridSvg(item.values, item.givens, x, y, side)}`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${PAGE_HEIGHT}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="Inter, Helvetica, Arial, sans-serif">`
+    + `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#fff"/>`
+    + `<text x="${MARGIN}" y="${MARGIN + 4}" font-size="6" font-weight="900">${escapeXml(title)}</text>`
+    + body
+    + `<text x="${PAGE_WIDTH / 2}" y="${PAGE_HEIGHT - MARGIN / 2}" font-size="3" fill="#666" text-anchor="middle">${escapeXml(footer)}</text>`
+    + '</svg>';
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, k) => items.slice(k * size, k * size + size));
+
+/**
+ * Lays the puzzles out as standalone SVG pages, `perPage` to a page, followed by the
+ * solution pages. Solutions always go six to a page to save paper.
+ */
+export const bookletPages = (entries: BookletEntry[], perPage: PuzzlesPerPage, titles: BookletTitles): string[] => {
+  const puzzlePages = chunk(entries, perPage).map(items =>
+    items.map(({ puzzle, caption }) => ({ values: puzzle.puzzle, givens: puzzle.puzzle, caption })));
+  const solutionPages = chunk(entries, 6).map(items =>
+    items.map(({ puzzle, solutionCaption }) => ({ values: puzzle.solution, givens: puzzle.puzzle, caption: solutionCaption })));
+
+  return [
+    ...puzzlePages.map((items, k) => pageSvg(titles.puzzles, titles.page(k + 1), items, perPage)),
+    ...solutionPages.map((items, k) => pageSvg(titles.solutions, titles.page(puzzlePages.length + k + 1), items, 6)),
+  ];
+};
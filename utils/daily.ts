@@ -0,0 +1,93 @@
+import { DailyResult, Difficulty } from '../types';
+
+const DAILY_KEY = 'sudoku-daily';
+
+// Local calendar date: the daily challenge changes at the player's midnight
+export const dateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Read back at noon, so adding days never trips over daylight saving changes
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+};
+
+export const shiftDate = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return dateKey(date);
+};
+
+/**
+ * Seed of the daily puzzle: an FNV-1a hash of the date and difficulty, so every player
+ * gets the same grid on the same day without asking a server.
+ */
+export const dailySeed = (date: string, difficulty: Difficulty) => {
+  let hash = 0x811c9dc5;
+  for (const ch of `daily:${date}:${difficulty}`) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const isDailyResult = (value: unknown): value is DailyResult => {
+  if (typeof value !== 'object' || value === null) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.date === 'string'
+    && Object.values(Difficulty).includes(result.difficulty as Difficulty)
+    && typeof result.gameId === 'string'
+    && typeof result.finished === 'boolean'
+    && typeof result.won === 'boolean'
+    && typeof result.time === 'number';
+};
+
+export const loadDailyResults = (): DailyResult[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DAILY_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isDailyResult) : [];
+  } catch (err) {
+    return [];
+  }
+};
+
+const saveDailyResults = (results: DailyResult[]) => localStorage.setItem(DAILY_KEY, JSON.stringify(results));
+
+export const findDailyResult = (results: DailyResult[], date: string, difficulty: Difficulty) =>
+  results.find(r => r.date === date && r.difficulty === difficulty);
+
+// Starting a daily claims it: from then on it can be resumed, but never rerolled
+export const startDaily = (date: string, difficulty: Difficulty, gameId: string): DailyResult[] => {
+  const results = loadDailyResults();
+  if (findDailyResult(results, date, difficulty)) return results;
+  const updated = [...results, { date, difficulty, gameId, finished: false, won: false, time: 0 }];
+  saveDailyResults(updated);
+  return updated;
+};
+
+// Only the first finish of a daily counts
+export const finishDaily = (gameId: string, won: boolean, time: number): DailyResult[] => {
+  const updated = loadDailyResults().map(r => (r.gameId === gameId && !r.finished ? { ...r, finished: true, won, time } : r));
+  saveDailyResults(updated);
+  return updated;
+};
+
+export interface DailyStreak {
+  current: number;
+  longest: number;
+}
+
+// Days in a row with at least one daily won; today still unsolved does not break the streak yet
+export const dailyStreak = (results: DailyResult[], today: string = dateKey()): DailyStreak => {
+  const days = [...new Set(results.filter(r => r.won).map(r => r.date))].sort();
+  let longest = 0, run = 0;
+  days.forEach((day, k) => {
+    run = k > 0 && shiftDate(days[k - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const won = new Set(days);
+  let current = 0;
+  for (let day = won.has(today) ? today : shiftDate(today, -1); won.has(day); day = shiftDate(day, -1)) current++;
+  return { current, longest };
+};
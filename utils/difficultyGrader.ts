@@ -0,0 +1,109 @@
+import { Difficulty, HintTechnique, PuzzleRating, VariantLayout } from '../types';
+import { applyStep, findNextStep, gridFromValues, isGridSolved } from './hintEngine';
+
+export const TECHNIQUE_WEIGHTS: Record<HintTechnique, number> = {
+  [HintTechnique.NAKED_SINGLE]: 1,
+  [HintTechnique.HIDDEN_SINGLE]: 2,
+  [HintTechnique.CAGE_COMBINATION]: 3,
+  [HintTechnique.POINTING_PAIR]: 4,
+  [HintTechnique.BOX_LINE_REDUCTION]: 5,
+  [HintTechnique.NAKED_PAIR]: 6,
+  [HintTechnique.HIDDEN_PAIR]: 8,
+  [HintTechnique.NAKED_TRIPLE]: 10,
+  [HintTechnique.HIDDEN_TRIPLE]: 12,
+  [HintTechnique.X_WING]: 14,
+  [HintTechnique.XY_WING]: 16,
+  [HintTechnique.SWORDFISH]: 20,
+};
+
+const TECHNIQUE_TIERS: Record<HintTechnique, number> = {
+  [HintTechnique.NAKED_SINGLE]: 1,
+  [HintTechnique.HIDDEN_SINGLE]: 1,
+  [HintTechnique.CAGE_COMBINATION]: 1, // The bread and butter of Killer, as basic there as a single
+  [HintTechnique.POINTING_PAIR]: 2,
+  [HintTechnique.BOX_LINE_REDUCTION]: 2,
+  [HintTechnique.NAKED_PAIR]: 2,
+  [HintTechnique.HIDDEN_PAIR]: 2,
+  [HintTechnique.NAKED_TRIPLE]: 3,
+  [HintTechnique.HIDDEN_TRIPLE]: 3,
+  [HintTechnique.X_WING]: 3,
+  [HintTechnique.XY_WING]: 4,
+  [HintTechnique.SWORDFISH]: 4,
+};
+
+// Tier reported for puzzles the logical solver cannot finish without guessing
+const GUESSING_TIER = 5;
+const GUESSING_PENALTY = 100;
+
+interface DifficultyBand {
+  minTier: number;
+  maxTier: number;
+  minScore: number;
+  maxScore: number;
+}
+
+export const DIFFICULTY_BANDS: Record<Difficulty, DifficultyBand> = {
+  [Difficulty.EASY]: { minTier: 1, maxTier: 1, minScore: 0, maxScore: 45 },
+  [Difficulty.MEDIUM]: { minTier: 1, maxTier: 2, minScore: 46, maxScore: Infinity },
+  [Difficulty.HARD]: { minTier: 2, maxTier: 3, minScore: 70, maxScore: Infinity },
+  [Difficulty.EXPERT]: { minTier: 4, maxTier: GUESSING_TIER, minScore: 0, maxScore: Infinity },
+};
+
+export const ratingTier = (rating: PuzzleRating) => {
+  if (rating.requiresGuessing) return GUESSING_TIER;
+  return rating.hardestTechnique ? TECHNIQUE_TIERS[rating.hardestTechnique] : 0;
+};
+
+/**
+ * Solves the puzzle the way a human would, step by step, and records the hardest
+ * technique needed plus a weighted score of every step taken.
+ */
+export const gradePuzzle = (puzzle: (number | null)[][], layout?: VariantLayout): PuzzleRating => {
+  const grid = gridFromValues(puzzle, layout);
+  let score = 0;
+  let hardestTechnique: HintTechnique | null = null;
+
+  for (let step = findNextStep(grid); step; step = findNextStep(grid)) {
+    const weight = TECHNIQUE_WEIGHTS[step.technique];
+    score += weight;
+    if (!hardestTechnique || weight > TECHNIQUE_WEIGHTS[hardestTechnique]) hardestTechnique = step.technique;
+    applyStep(grid, step);
+  }
+
+  const requiresGuessing = !isGridSolved(grid);
+  // Scores are kept on the 9x9 scale so the same bands work for every grid size
+  const scaled = Math.round((score * 81) / grid.values.length);
+  return { hardestTechnique, score: scaled + (requiresGuessing ? GUESSING_PENALTY : 0), requiresGuessing };
+};
+
+export const fitsDifficulty = (rating: PuzzleRating, difficulty: Difficulty) => {
+  const band = DIFFICULTY_BANDS[difficulty];
+  const tier = ratingTier(rating);
+  return tier >= band.minTier && tier <= band.maxTier && rating.score >= band.minScore && rating.score <= band.maxScore;
+};
+
+// How far a rating is from a band; used to keep the closest puzzle when none fits
+export const bandDistance = (rating: PuzzleRating, difficulty: Difficulty) => {
+  const band = DIFFICULTY_BANDS[difficulty];
+  const tier = ratingTier(rating);
+  return Math.max(band.minTier - tier, tier - band.maxTier, 0) * 1000
+    + Math.max(band.minScore - rating.score, rating.score - band.maxScore, 0);
+};
+
+// Difficulty label for puzzles that did not come from the generator, e.g. imported grids
+export const difficultyForRating = (rating: PuzzleRating): Difficulty => {
+  const difficulties = Object.values(Difficulty);
+  return difficulties.find(d => fitsDifficulty(rating, d))
+    ?? difficulties.reduce((best, d) => (bandDistance(rating, d) < bandDistance(rating, best) ? d : best));
+};
+
+// Difficulties used to be stored as their Portuguese labels; saves and stats files from then still are
+const LEGACY_DIFFICULTIES: Record<string, Difficulty> = {
+  'Fácil': Difficulty.EASY,
+  'Médio': Difficulty.MEDIUM,
+  'Difícil': Difficulty.HARD,
+  'Expert': Difficulty.EXPERT,
+};
+
+export const parseDifficulty = (value: unknown): Difficulty | null =>
+  Object.values(Difficulty).includes(value as Difficulty) ? (value as Difficulty) : LEGACY_DIFFICULTIES[String(value)] ?? null;
@@ -0,0 +1,17 @@
+import { PuzzleRating } from '../types';
+import type { Translator } from './i18n';
+
+// L1C1 in Portuguese, R1C1 in English, F1C1 in Spanish
+export const cellLabel = ({ t }: Translator, r: number, c: number) => t('cell.label', { row: r + 1, col: c + 1 });
+
+export const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+// 16x16 grids write the digits 10 to 16 as the letters A to G
+export const digitLabel = (n: number) => (n <= 9 ? String(n) : String.fromCharCode(55 + n));
+
+// Name of the hardest technique the puzzle needs
+export const ratingLabel = (rating: PuzzleRating, { t }: Translator) => {
+  if (rating.requiresGuessing) return t('technique.guessing');
+  return rating.hardestTechnique ? t(`technique.${rating.hardestTechnique}`) : '—';
+};
@@ -0,0 +1,141 @@
+import { CellData, GameAction, GameState, NoteChange, VariantLayout } from '../types';
+import { isValid } from './sudokuLogic';
+import { getConstraints } from './variants';
+
+export const cloneBoard = (board: CellData[][]) =>
+  board.map(row => row.map(cell => ({ ...cell, notes: new Set(cell.notes), cornerNotes: new Set(cell.cornerNotes) })));
+
+export const clearPeerNotes = (board: CellData[][], r: number, c: number, num: number, layout?: VariantLayout) => {
+  const size = board.length;
+  getConstraints(layout).peers[r * size + c].forEach(p => {
+    const peer = board[Math.floor(p / size)][p % size];
+    peer.notes.delete(num);
+    peer.cornerNotes.delete(num);
+  });
+};
+
+const visibleValues = (board: CellData[][]) => board.map(row => row.map(cell => (cell.error ? null : cell.value)));
+
+// Digits that do not break any rule of the layout, given the entries shown on the board
+export const legalCandidates = (board: CellData[][], r: number, c: number, layout?: VariantLayout): number[] => {
+  const values = visibleValues(board);
+  return Array.from({ length: board.length }, (_, i) => i + 1).filter(n => isValid(values, r, c, n, layout));
+};
+
+// Center marks with every legal candidate, for each empty cell
+export const autoCandidates = (board: CellData[][], layout?: VariantLayout): NoteChange[] =>
+  board.flatMap((row, r) => row.flatMap((cell, c) => (cell.value === null ? [{ row: r, col: c, notes: legalCandidates(board, r, c, layout) }] : [])));
+
+/**
+ * Keeps candidates up to date after `erased` cells lost the digits in `digits`: the
+ * cleared cells get all their legal candidates back, and marked peers regain the digits
+ * that fit again.
+ */
+export const refreshedCandidates = (board: CellData[][], erased: [number, number][], digits: number[], layout?: VariantLayout): NoteChange[] => {
+  const size = board.length;
+  const changes = new Map<number, NoteChange>();
+  const next = applyAction(board, { type: 'erase', cells: erased, time: 0 }, layout);
+  erased.forEach(([row, col]) => changes.set(row * size + col, { row, col, notes: legalCandidates(next, row, col, layout) }));
+  erased.forEach(([r, c]) => getConstraints(layout).peers[r * size + c].forEach(p => {
+    const [row, col] = [Math.floor(p / size), p % size];
+    const peer = next[row][col];
+    if (changes.has(p) || peer.value !== null || peer.notes.size === 0) return;
+    const legal = legalCandidates(next, row, col, layout);
+    const regained = digits.filter(n => legal.includes(n) && !peer.notes.has(n));
+    if (regained.length > 0) changes.set(p, { row, col, notes: [...peer.notes, ...regained].sort((a, b) => a - b) });
+  }));
+  return [...changes.values()];
+};
+
+// Only mistakes shown as they are made count towards the error limit
+export const isErrorAction = (action: GameAction) => action.type === 'place' && action.error && !action.ungraded;
+
+export const applyAction = (board: CellData[][], action: GameAction, layout?: VariantLayout): CellData[][] => {
+  const next = cloneBoard(board);
+  switch (action.type) {
+    case 'note': {
+      // Like any multi-cell edit: removed if every cell has the mark, otherwise added everywhere
+      const cells = action.cells.map(([r, c]) => next[r][c]);
+      const layerOf = (cell: CellData) => (action.layer === 'corner' ? cell.cornerNotes : cell.notes);
+      const remove = cells.every(cell => cell.value === null && layerOf(cell).has(action.value));
+      cells.forEach(cell => {
+        if (remove) layerOf(cell).delete(action.value);
+        else layerOf(cell).add(action.value);
+        cell.value = null;
+        cell.error = false;
+      });
+      break;
+    }
+    case 'place': {
+      const error = isErrorAction(action);
+      next[action.row][action.col] = { ...next[action.row][action.col], value: action.value, error, notes: new Set(), cornerNotes: new Set() };
+      if (!error) clearPeerNotes(next, action.row, action.col, action.value, layout);
+      break;
+    }
+    case 'erase':
+      action.cells.forEach(([r, c]) => {
+        next[r][c] = { ...next[r][c], value: null, error: false, notes: new Set(), cornerNotes: new Set() };
+      });
+      action.notes?.forEach(({ row, col, notes }) => { next[row][col].notes = new Set(notes); });
+      break;
+    case 'hint': {
+      if (action.placement) {
+        const { row, col, value } = action.placement;
+        next[row][col] = { ...next[row][col], value, error: false, notes: new Set(), cornerNotes: new Set() };
+        clearPeerNotes(next, row, col, value, layout);
+      }
+      action.notes.forEach(({ row, col, notes }) => { next[row][col].notes = new Set(notes); });
+      break;
+    }
+    case 'check':
+      action.cells.forEach(([row, col]) => { next[row][col].error = true; });
+      break;
+    case 'candidates':
+      action.notes.forEach(({ row, col, notes }) => { next[row][col].notes = new Set(notes); });
+      break;
+    case 'color':
+      action.cells.forEach(([row, col]) => { next[row][col].color = action.color; });
+      break;
+  }
+  return next;
+};
+
+export const replayActions = (initialBoard: CellData[][], actions: GameAction[], layout?: VariantLayout) =>
+  actions.reduce((board, action) => applyAction(board, action, layout), initialBoard);
+
+// Records a new action: anything that was undone is dropped, as in any editor
+export const performAction = (state: GameState, action: GameAction): GameState => {
+  const errors = state.errors + (isErrorAction(action) ? 1 : 0);
+  return {
+    ...state,
+    board: applyAction(state.board, action, state.layout),
+    actions: [...state.actions.slice(0, state.actionCursor), action],
+    actionCursor: state.actionCursor + 1,
+    errors,
+    isGameOver: state.isGameOver || errors >= state.maxErrors,
+  };
+};
+
+export const undoAction = (state: GameState): GameState => {
+  if (state.actionCursor === 0) return state;
+  const cursor = state.actionCursor - 1;
+  return {
+    ...state,
+    board: replayActions(state.initialBoard, state.actions.slice(0, cursor), state.layout),
+    actionCursor: cursor,
+    errors: state.errors - (isErrorAction(state.actions[cursor]) ? 1 : 0),
+  };
+};
+
+export const redoAction = (state: GameState): GameState => {
+  if (state.actionCursor >= state.actions.length) return state;
+  const action = state.actions[state.actionCursor];
+  const errors = state.errors + (isErrorAction(action) ? 1 : 0);
+  return {
+    ...state,
+    board: applyAction(state.board, action, state.layout),
+    actionCursor: state.actionCursor + 1,
+    errors,
+    isGameOver: state.isGameOver || errors >= state.maxErrors,
+  };
+};
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { GameMode, GameState } from '../types';
+import { boardProgress, completedDigits, GameCommand, runCommand } from './gameEngine';
+import { findHint } from './hintEngine';
+import { newGame, OPTIONS, PUZZLE, SOLUTION } from './testFixtures';
+
+// Runs the commands in order, collecting every event along the way
+const play = (state: GameState, commands: GameCommand[], options = OPTIONS) =>
+  commands.reduce(({ state, events }, command) => {
+    const result = runCommand(state, command, options);
+    return { state: result.state, events: [...events, ...result.events] };
+  }, { state, events: [] as ReturnType<typeof runCommand>['events'] });
+
+// Everything but the last cell of the solution already filled in
+const ALMOST_SOLVED = SOLUTION.slice(0, 80) + '0';
+
+describe('error counting', () => {
+  it('counts wrong entries when mistakes are checked live', () => {
+    const { state, events } = play(newGame(), [{ type: 'place', row: 0, col: 2, value: 1 }]);
+    expect(state.errors).toBe(1);
+    expect(state.board[0][2].error).toBe(true);
+    expect(events).toContainEqual({ type: 'error', row: 0, col: 2, value: 1 });
+  });
+
+  it('does not count correct entries', () => {
+    const { state, events } = play(newGame(), [{ type: 'place', row: 0, col: 2, value: 4 }]);
+    expect(state.errors).toBe(0);
+    expect(events.filter(e => e.type === 'error')).toHaveLength(0);
+  });
+
+  it('keeps mistakes hidden and uncounted until a check', () => {
+    const options = { ...OPTIONS, autoCheckErrors: false };
+    const placed = play(newGame(), [{ type: 'place', row: 0, col: 2, value: 1 }], options);
+    expect(placed.state.errors).toBe(0);
+    expect(placed.state.board[0][2].error).toBe(false);
+
+    const checked = play(placed.state, [{ type: 'check' }], options);
+    expect(checked.state.board[0][2].error).toBe(true);
+    expect(checked.state.errors).toBe(0);
+    expect(checked.events).toContainEqual({ type: 'checked', wrong: 1 });
+  });
+
+  it('gives the error back on undo and takes it again on redo', () => {
+    const placed = play(newGame(), [{ type: 'place', row: 0, col: 2, value: 1 }]).state;
+    const undone = play(placed, [{ type: 'undo' }]).state;
+    expect(undone.errors).toBe(0);
+    expect(undone.board[0][2].value).toBeNull();
+    expect(play(undone, [{ type: 'redo' }]).state.errors).toBe(1);
+  });
+
+  it('ignores an entry that repeats the digit already in the cell', () => {
+    const once = play(newGame(), [{ type: 'place', row: 0, col: 2, value: 1 }]);
+    const again = play(once.state, [{ type: 'place', row: 0, col: 2, value: 1 }]);
+    expect(again.state).toBe(once.state);
+    expect(again.events).toHaveLength(0);
+  });
+
+  it('ignores entries on given cells', () => {
+    const state = newGame();
+    expect(runCommand(state, { type: 'place', row: 0, col: 0, value: 1 }, OPTIONS).state).toBe(state);
+  });
+});
+
+describe('note cleanup', () => {
+  it('clears the placed digit from the center and corner marks of every peer', () => {
+    const { state } = play(newGame(), [
+      { type: 'note', cells: [[0, 3]], value: 4, layer: 'center' }, // Same row
+      { type: 'note', cells: [[5, 2]], value: 4, layer: 'corner' }, // Same column
+      { type: 'note', cells: [[1, 1]], value: 4, layer: 'center' }, // Same box
+      { type: 'note', cells: [[4, 4]], value: 4, layer: 'center' }, // Not a peer
+      { type: 'place', row: 0, col: 2, value: 4 }
+    ]);
+    expect(state.board[0][3].notes.has(4)).toBe(false);
+    expect(state.board[5][2].cornerNotes.has(4)).toBe(false);
+    expect(state.board[1][1].notes.has(4)).toBe(false);
+    expect(state.board[4][4].notes.has(4)).toBe(true);
+  });
+
+  it('leaves peer marks alone when the entry is wrong', () => {
+    const { state } = play(newGame(), [
+      { type: 'note', cells: [[0, 3]], value: 1, layer: 'center' },
+      { type: 'place', row: 0, col: 2, value: 1 }
+    ]);
+    expect(state.board[0][3].notes.has(1)).toBe(true);
+  });
+
+  it('restores the candidates of an erased digit when kept up to date', () => {
+    const options = { ...OPTIONS, keepCandidatesUpdated: true };
+    const { state } = play(newGame(), [
+      { type: 'candidates' },
+      { type: 'place', row: 0, col: 2, value: 4 },
+      { type: 'erase', cells: [[0, 2]] }
+    ], options);
+    expect(state.board[0][2].notes.has(4)).toBe(true);
+    expect(state.board[0][5].notes.has(4)).toBe(true);
+  });
+});
+
+describe('game-over rules', () => {
+  it('loses on reaching the error limit', () => {
+    const { state, events } = play(newGame(), [
+      { type: 'place', row: 0, col: 2, value: 1 },
+      { type: 'place', row: 0, col: 3, value: 1 },
+      { type: 'place', row: 0, col: 5, value: 1 }
+    ]);
+    expect(state.isGameOver).toBe(true);
+    expect(state.isWon).toBe(false);
+    expect(events.filter(e => e.type === 'lost')).toHaveLength(1);
+  });
+
+  it('has no error limit in zen mode', () => {
+    const { state } = play(newGame(PUZZLE, GameMode.ZEN), [1, 2, 3, 5, 6].map(value => ({ type: 'place', row: 0, col: 2, value } as GameCommand)));
+    expect(state.errors).toBe(5);
+    expect(state.isGameOver).toBe(false);
+  });
+
+  it('loses when the countdown runs out', () => {
+    const game = newGame(PUZZLE, GameMode.COUNTDOWN);
+    const { state, events } = play({ ...game, time: game.timeLimit! - 1 }, [{ type: 'tick' }]);
+    expect(state.isGameOver).toBe(true);
+    expect(state.isWon).toBe(false);
+    expect(events).toContainEqual({ type: 'lost' });
+  });
+
+  it('adds blitz seconds once per completed unit', () => {
+    // Only the last two cells of the bottom row are open
+    const game = newGame(SOLUTION.slice(0, 79) + '00', GameMode.BLITZ);
+    const limit = game.timeLimit!;
+    const once = play(game, [{ type: 'place', row: 8, col: 7, value: 7 }]).state;
+    expect(once.timeLimit).toBe(limit + 15);
+    const again = play(once, [{ type: 'erase', cells: [[8, 7]] }, { type: 'place', row: 8, col: 7, value: 7 }]).state;
+    expect(again.timeLimit).toBe(limit + 15);
+  });
+
+  it('wins when the board matches the solution', () => {
+    const { state, events } = play(newGame(ALMOST_SOLVED), [{ type: 'place', row: 8, col: 8, value: 9 }]);
+    expect(state.isWon).toBe(true);
+    expect(state.isGameOver).toBe(true);
+    expect(events).toContainEqual({ type: 'won' });
+    // The last cell closes its row, its column and its box
+    expect(events.filter(e => e.type === 'unitCompleted')).toHaveLength(3);
+  });
+
+  it('reports a digit once all of its cells are filled', () => {
+    const { events } = play(newGame(ALMOST_SOLVED), [{ type: 'place', row: 8, col: 8, value: 9 }]);
+    expect(events).toContainEqual({ type: 'placed', row: 8, col: 8, value: 9 });
+    expect(events.filter(e => e.type === 'digitCompleted')).toEqual([{ type: 'digitCompleted', digit: 9 }]);
+  });
+
+  it('reveals the selected cell when asked for a hint without a technique', () => {
+    const { state, events } = play(newGame(ALMOST_SOLVED), [{ type: 'select', cell: [8, 8] }, { type: 'hint', hint: null }]);
+    expect(state.hintsUsed).toBe(1);
+    expect(events).toContainEqual({ type: 'won' });
+  });
+
+  it('charges a technique hint when it is revealed, not when it is applied', () => {
+    const game = newGame();
+    const hint = findHint(game.board, game.solution, game.layout)!;
+    const revealed = play(game, [{ type: 'revealHint' }]).state;
+    expect(revealed.hintsUsed).toBe(1);
+    expect(play(revealed, [{ type: 'hint', hint }]).state.hintsUsed).toBe(1);
+  });
+
+  it('stops giving hints once the budget is spent', () => {
+    const budget = newGame().maxHints;
+    const commands: GameCommand[] = [{ type: 'select', cell: [0, 2] }, { type: 'hint', hint: null }, { type: 'erase', cells: [[0, 2]] }];
+    const spent = play(newGame(), Array.from({ length: budget }, () => commands).flat()).state;
+    expect(spent.hintsUsed).toBe(budget);
+    expect(runCommand(spent, { type: 'hint', hint: null }, OPTIONS).state).toBe(spent);
+  });
+
+  it('ignores moves once the game is over', () => {
+    const { state } = play(newGame(ALMOST_SOLVED), [{ type: 'place', row: 8, col: 8, value: 9 }]);
+    for (const command of [{ type: 'undo' }, { type: 'erase', cells: [[8, 8]] }, { type: 'tick' }, { type: 'pause' }] as GameCommand[]) {
+      expect(runCommand(state, command, OPTIONS).state).toBe(state);
+    }
+  });
+
+  it('stops the clock and the board while paused', () => {
+    const paused = play(newGame(), [{ type: 'tick' }, { type: 'pause' }]).state;
+    expect(paused.isPaused).toBe(true);
+    expect(play(paused, [{ type: 'tick' }, { type: 'place', row: 0, col: 2, value: 4 }]).state).toBe(paused);
+
+    const resumed = play(paused, [{ type: 'pause' }, { type: 'tick' }]).state;
+    expect(resumed.time).toBe(2);
+  });
+});
+
+describe('completedDigits', () => {
+  it('lists the digits placed in every unit', () => {
+    const { board } = newGame(ALMOST_SOLVED);
+    expect([...completedDigits(board)].sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
+
+describe('boardProgress', () => {
+  it('counts hidden mistakes as filled unless given the solution', () => {
+    const options = { ...OPTIONS, autoCheckErrors: false };
+    const { state } = play(newGame(ALMOST_SOLVED), [{ type: 'place', row: 8, col: 8, value: 1 }], options);
+    expect(boardProgress(state.board)).toBe(100);
+    expect(boardProgress(state.board, state.solution)).toBe(98);
+  });
+});
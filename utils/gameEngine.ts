@@ -0,0 +1,311 @@
+import { CellData, Difficulty, GameMode, GameState, Hint, HintUnit, NoteChange, NoteLayer, PuzzleRating, VariantLayout } from '../types';
+import { autoCandidates, performAction, redoAction, refreshedCandidates, undoAction } from './gameActions';
+import { buildCandidateGrid, candidatesAt } from './hintEngine';
+import { createId } from './random';
+import { getConstraints } from './variants';
+
+const HINT_BUDGET: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 6,
+  [Difficulty.MEDIUM]: 4,
+  [Difficulty.HARD]: 3,
+  [Difficulty.EXPERT]: 2,
+};
+const UNLIMITED = 999;
+
+interface ModeRules {
+  maxErrors: number;
+  limitedHints: boolean;
+  timeLimit: Record<Difficulty, number> | null; // Seconds for a 9x9 grid, scaled by cell count
+  unitBonus: number; // Seconds given back for every completed row, column, box or variant unit
+}
+
+export const MODE_RULES: Record<GameMode, ModeRules> = {
+  [GameMode.NORMAL]: { maxErrors: 3, limitedHints: true, timeLimit: null, unitBonus: 0 },
+  [GameMode.ZEN]: { maxErrors: UNLIMITED, limitedHints: false, timeLimit: null, unitBonus: 0 },
+  [GameMode.COUNTDOWN]: {
+    maxErrors: 3,
+    limitedHints: true,
+    timeLimit: { [Difficulty.EASY]: 480, [Difficulty.MEDIUM]: 720, [Difficulty.HARD]: 1200, [Difficulty.EXPERT]: 1800 },
+    unitBonus: 0,
+  },
+  // The lives last for the whole run, so there are more of them
+  [GameMode.SURVIVAL]: { maxErrors: 5, limitedHints: true, timeLimit: null, unitBonus: 0 },
+  [GameMode.BLITZ]: {
+    maxErrors: 3,
+    limitedHints: true,
+    timeLimit: { [Difficulty.EASY]: 120, [Difficulty.MEDIUM]: 180, [Difficulty.HARD]: 300, [Difficulty.EXPERT]: 420 },
+    unitBonus: 15,
+  },
+};
+
+export const hintBudget = (difficulty: Difficulty, mode: GameMode) => (MODE_RULES[mode].limitedHints ? HINT_BUDGET[difficulty] : UNLIMITED);
+
+const timeLimitFor = (difficulty: Difficulty, mode: GameMode, layout: VariantLayout) => {
+  const limits = MODE_RULES[mode].timeLimit;
+  return limits ? Math.round((limits[difficulty] * layout.size * layout.size) / 81) : null;
+};
+
+// Why a finished game was lost: the mistakes ran out, or the clock did
+export const lossReason = (state: GameState): 'errors' | 'timeout' | null => {
+  if (!state.isGameOver || state.isWon) return null;
+  return state.timeLimit !== null && state.time >= state.timeLimit ? 'timeout' : 'errors';
+};
+
+export interface EngineOptions {
+  autoCheckErrors: boolean; // Off: wrong entries stay hidden (and uncounted) until a 'check'
+  keepCandidatesUpdated: boolean; // Erasing a digit gives its candidates back to the center marks
+}
+
+export type GameCommand =
+  | { type: 'select'; cell: [number, number] | null }
+  | { type: 'place'; row: number; col: number; value: number }
+  | { type: 'note'; cells: [number, number][]; value: number; layer: NoteLayer }
+  | { type: 'erase'; cells: [number, number][] }
+  | { type: 'revealHint' } // Spends a hint on showing the cells and digits of a technique
+  | { type: 'hint'; hint: Hint | null } // Applies a revealed technique; without one, the selected cell is revealed and charged
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'pause'; paused?: boolean } // Toggles when `paused` is left out
+  | { type: 'tick' }
+  | { type: 'check' }
+  | { type: 'candidates' }
+  | { type: 'color'; cells: [number, number][]; color: number | null };
+
+export type GameEvent =
+  | { type: 'placed'; row: number; col: number; value: number } // Any entry not reported as an error, so unchecked mistakes stay hidden
+  | { type: 'error'; row: number; col: number; value: number }
+  | { type: 'noted'; layer: NoteLayer; value: number }
+  | { type: 'unitCompleted'; unit: HintUnit; cells: number[] }
+  | { type: 'digitCompleted'; digit: number }
+  | { type: 'checked'; wrong: number }
+  | { type: 'won' }
+  | { type: 'lost' };
+
+export interface CommandResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export interface NewGame {
+  puzzle: (number | null)[][];
+  solution: number[][];
+  difficulty: Difficulty;
+  layout: VariantLayout;
+  rating: PuzzleRating;
+  seed: number | null;
+  mode: GameMode;
+  daily?: string | null;
+  chain?: number; // Survival: puzzles cleared so far in the run
+  // Progress carried over by imported puzzles
+  entries?: (number | null)[][] | null;
+  notes?: number[][][] | null;
+  time?: number;
+  errors?: number;
+}
+
+export const createGame = (game: NewGame): GameState => {
+  const board: CellData[][] = game.puzzle.map((row, r) =>
+    row.map((val, c) => {
+      const entry = game.entries?.[r][c] ?? null;
+      return {
+        value: val ?? entry,
+        fixed: val !== null,
+        notes: new Set<number>(val === null && entry === null ? game.notes?.[r][c] : []),
+        cornerNotes: new Set<number>(),
+        color: null,
+        error: val === null && entry !== null && entry !== game.solution[r][c]
+      };
+    })
+  );
+  const { maxErrors } = MODE_RULES[game.mode];
+  const errors = game.errors ?? 0;
+
+  return {
+    id: createId(),
+    board,
+    initialBoard: board,
+    solution: game.solution,
+    difficulty: game.difficulty,
+    layout: game.layout,
+    rating: game.rating,
+    seed: game.seed,
+    time: game.time ?? 0,
+    timeLimit: timeLimitFor(game.difficulty, game.mode, game.layout),
+    bonusUnits: [],
+    errors,
+    maxErrors,
+    hintsUsed: 0,
+    maxHints: hintBudget(game.difficulty, game.mode),
+    isPaused: false,
+    selectedCell: null,
+    actions: [],
+    actionCursor: 0,
+    mode: game.mode,
+    chain: game.chain ?? 0,
+    focusMode: false,
+    noteMode: false,
+    noteLayer: 'center',
+    isGameOver: errors >= maxErrors,
+    isWon: false,
+    daily: game.daily ?? null
+  };
+};
+
+const isSolvedAt = (state: GameState, i: number) => {
+  const size = state.layout.size;
+  const [r, c] = [Math.floor(i / size), i % size];
+  return state.board[r][c].value === state.solution[r][c];
+};
+
+// Indexes (into the layout's units) of the units already filled in correctly
+const completedUnits = (state: GameState) =>
+  new Set(getConstraints(state.layout).units.flatMap((unit, k) => (unit.cells.every(i => isSolvedAt(state, i)) ? [k] : [])));
+
+// Digits already placed in every unit, so the number pad can retire them
+export const completedDigits = (board: CellData[][]) => {
+  const counts = new Array(board.length + 1).fill(0);
+  board.forEach(row => row.forEach(cell => { if (cell.value) counts[cell.value]++; }));
+  return new Set(counts.flatMap((count, num) => (count === board.length ? [num] : [])));
+};
+
+// Percentage of the cells filled in, leaving out revealed errors. On the player's own screen
+// unchecked wrong entries have to count, or the number would give them away; passing the
+// solution counts only the right digits, as race reports do
+export const boardProgress = (board: Pick<CellData, 'value' | 'error'>[][], solution?: number[][]) =>
+  Math.floor((board.flatMap((row, r) => row.filter((c, col) => c.value && !c.error && (!solution || c.value === solution[r][col]))).length / (board.length * board.length)) * 100);
+
+// Game-over rules and the events every board change can trigger
+const settle = (prev: GameState, changed: GameState, events: GameEvent[]): CommandResult => {
+  const { units } = getConstraints(changed.layout);
+  const before = completedUnits(prev);
+  const { unitBonus } = MODE_RULES[changed.mode];
+  let next = changed;
+  completedUnits(next).forEach(k => {
+    if (before.has(k)) return;
+    events.push({ type: 'unitCompleted', unit: { kind: units[k].kind, index: units[k].index }, cells: units[k].cells });
+    // Blitz: a unit winds the clock back up only the first time, so erasing and refilling it earns nothing
+    if (unitBonus > 0 && next.timeLimit !== null && !next.bonusUnits.includes(k)) {
+      next = { ...next, timeLimit: next.timeLimit + unitBonus, bonusUnits: [...next.bonusUnits, k] };
+    }
+  });
+  const digitsBefore = completedDigits(prev.board);
+  completedDigits(next.board).forEach(digit => {
+    if (!digitsBefore.has(digit)) events.push({ type: 'digitCompleted', digit });
+  });
+
+  const solved = next.board.every((row, r) => row.every((cell, c) => cell.value === next.solution[r][c]));
+  if (solved && !next.isWon) {
+    events.push({ type: 'won' });
+    return { state: { ...next, isWon: true, isGameOver: true }, events };
+  }
+  if (next.timeLimit !== null && next.time >= next.timeLimit) next = { ...next, isGameOver: true };
+  if (next.isGameOver && !prev.isGameOver) events.push({ type: 'lost' });
+  return { state: next, events };
+};
+
+// Eliminations of a technique hint, as full note lists for the cells they touch
+const hintNotes = (state: GameState, hint: Hint): NoteChange[] => {
+  const grid = buildCandidateGrid(state.board, state.solution, state.layout);
+  const changes = new Map<string, NoteChange>();
+  hint.eliminations.forEach(({ row, col, value }) => {
+    const key = `${row}-${col}`;
+    if (!changes.has(key)) {
+      // Cells without marks start from the candidates the hint worked with
+      const notes = state.board[row][col].notes;
+      changes.set(key, { row, col, notes: notes.size > 0 ? [...notes] : candidatesAt(grid, row, col) });
+    }
+    const change = changes.get(key)!;
+    change.notes = change.notes.filter(n => n !== value);
+  });
+  return [...changes.values()];
+};
+
+const unchanged = (state: GameState): CommandResult => ({ state, events: [] });
+
+/**
+ * Applies one player command and returns the resulting state along with what happened,
+ * so the UI can react (sounds, animations, statistics) without re-deriving the rules.
+ * Commands that make no sense in the current state return it untouched.
+ */
+export const runCommand = (state: GameState, command: GameCommand, options: EngineOptions): CommandResult => {
+  if (command.type === 'pause') {
+    if (state.isGameOver) return unchanged(state);
+    return unchanged({ ...state, isPaused: command.paused ?? !state.isPaused });
+  }
+  if (state.isGameOver || state.isPaused) return unchanged(state);
+  const { board, time } = state;
+
+  switch (command.type) {
+    case 'tick':
+      return settle(state, { ...state, time: time + 1 }, []);
+
+    case 'select':
+      return unchanged({ ...state, selectedCell: command.cell });
+
+    case 'place': {
+      const { row, col, value } = command;
+      // Typing the digit a cell already holds changes nothing and is left out of the log
+      if (board[row][col].fixed || board[row][col].value === value) return unchanged(state);
+      const error = value !== state.solution[row][col];
+      const next = performAction(state, { type: 'place', row, col, value, error, ...(options.autoCheckErrors ? {} : { ungraded: true }), time });
+      return settle(state, next, [{ type: error && options.autoCheckErrors ? 'error' : 'placed', row, col, value }]);
+    }
+
+    case 'note': {
+      // With several cells, the ones holding a digit keep it
+      const editable = command.cells.filter(([r, c]) => !board[r][c].fixed);
+      const cells = editable.length > 1 ? editable.filter(([r, c]) => board[r][c].value === null) : editable;
+      if (cells.length === 0) return unchanged(state);
+      return settle(state, performAction(state, { type: 'note', layer: command.layer, cells, value: command.value, time }), [{ type: 'noted', layer: command.layer, value: command.value }]);
+    }
+
+    case 'erase': {
+      const cells = command.cells.filter(([r, c]) => !board[r][c].fixed && (board[r][c].value !== null || board[r][c].notes.size > 0 || board[r][c].cornerNotes.size > 0));
+      if (cells.length === 0) return unchanged(state);
+      const withValue = cells.filter(([r, c]) => board[r][c].value !== null);
+      const notes = options.keepCandidatesUpdated && withValue.length > 0
+        ? refreshedCandidates(board, withValue, withValue.map(([r, c]) => board[r][c].value!), state.layout)
+        : undefined;
+      return settle(state, performAction(state, { type: 'erase', cells, ...(notes ? { notes } : {}), time }), []);
+    }
+
+    // Once the answer is on screen the hint is spent, whether or not it gets applied
+    case 'revealHint':
+      if (state.hintsUsed >= state.maxHints) return unchanged(state);
+      return unchanged({ ...state, hintsUsed: state.hintsUsed + 1 });
+
+    case 'hint': {
+      const { hint } = command;
+      if (hint) {
+        const next = performAction(state, { type: 'hint', placement: hint.placement, notes: hintNotes(state, hint), time });
+        const selectedCell: [number, number] | null = hint.placement ? [hint.placement.row, hint.placement.col] : state.selectedCell;
+        return settle(state, { ...next, selectedCell }, []);
+      }
+      if (state.hintsUsed >= state.maxHints || !state.selectedCell) return unchanged(state);
+      const [row, col] = state.selectedCell;
+      if (board[row][col].fixed) return unchanged(state);
+      const next = performAction(state, { type: 'hint', placement: { row, col, value: state.solution[row][col] }, notes: [], time });
+      return settle(state, { ...next, hintsUsed: state.hintsUsed + 1 }, []);
+    }
+
+    case 'undo':
+      return settle(state, undoAction(state), []);
+
+    case 'redo':
+      return settle(state, redoAction(state), []);
+
+    case 'check': {
+      const wrong = board.flatMap((row, r) => row.flatMap((cell, c): [number, number][] =>
+        !cell.fixed && cell.value !== null && !cell.error && cell.value !== state.solution[r][c] ? [[r, c]] : []));
+      const next = wrong.length > 0 ? performAction(state, { type: 'check', cells: wrong, time }) : state;
+      return settle(state, next, [{ type: 'checked', wrong: wrong.length }]);
+    }
+
+    case 'candidates':
+      return settle(state, performAction(state, { type: 'candidates', notes: autoCandidates(board, state.layout), time }), []);
+
+    case 'color':
+      if (command.cells.length === 0) return unchanged(state);
+      return settle(state, performAction(state, { type: 'color', cells: command.cells, color: command.color, time }), []);
+  }
+};
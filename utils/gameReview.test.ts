@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, HintTechnique } from '../types';
+import { GameCommand, runCommand } from './gameEngine';
+import { reviewGame } from './gameReview';
+import { newGame, OPTIONS, SOLUTION } from './testFixtures';
+
+const play = (state: GameState, commands: GameCommand[]) =>
+  commands.reduce((s: GameState, command) => runCommand(s, command, OPTIONS).state, state);
+
+const ticks = (n: number): GameCommand[] => Array.from({ length: n }, () => ({ type: 'tick' }));
+
+describe('reviewGame', () => {
+  it('lists wrong entries with the correct digit and the technique that finds it', () => {
+    // Only the first two cells are open, so each is a naked single
+    const state = play(newGame('00' + SOLUTION.slice(2)), [
+      ...ticks(5),
+      { type: 'place', row: 0, col: 0, value: 3 },
+      { type: 'place', row: 0, col: 0, value: 5 },
+    ]);
+    const { mistakes } = reviewGame(state);
+    expect(mistakes).toEqual([{ step: 1, row: 0, col: 0, value: 3, correct: 5, time: 5, technique: HintTechnique.NAKED_SINGLE }]);
+  });
+
+  it('counts correct entries per minute', () => {
+    const state = play(newGame('000' + SOLUTION.slice(3)), [
+      { type: 'place', row: 0, col: 0, value: 5 },
+      ...ticks(70),
+      { type: 'place', row: 0, col: 1, value: 1 },
+      { type: 'place', row: 0, col: 1, value: 3 },
+      ...ticks(60),
+      { type: 'place', row: 0, col: 2, value: 4 },
+    ]);
+    expect(reviewGame(state).pace).toEqual([
+      { start: 0, placed: 1, errors: 0 },
+      { start: 60, placed: 1, errors: 1 },
+      { start: 120, placed: 1, errors: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { CellData, GameState, HintTechnique } from '../types';
+import { replayActions } from './gameActions';
+import { TECHNIQUE_WEIGHTS } from './difficultyGrader';
+import { applyStep, buildCandidateGrid, findNextStep } from './hintEngine';
+
+// Width of a pace bucket, in seconds
+export const PACE_BUCKET = 60;
+
+export interface Mistake {
+  step: number; // Position of the wrong entry in the action log, counting from 1 as the replay does
+  row: number;
+  col: number;
+  value: number;
+  correct: number;
+  time: number;
+  technique: HintTechnique | null; // null when logic alone could not reach the cell
+}
+
+export interface PaceBucket {
+  start: number; // Seconds
+  placed: number; // Correct entries made by the player; hints do not count
+  errors: number;
+}
+
+export interface GameReview {
+  mistakes: Mistake[];
+  pace: PaceBucket[];
+}
+
+/**
+ * Hardest technique a solver needs, starting from `board`, before it places the digit
+ * of the given cell. The cell itself is treated as empty, whatever the player had in it.
+ */
+const techniqueFor = (board: CellData[][], state: GameState, row: number, col: number): HintTechnique | null => {
+  const open = board.map((line, r) => line.map((cell, c) => (r === row && c === col ? { ...cell, value: null, error: false } : cell)));
+  const grid = buildCandidateGrid(open, state.solution, state.layout);
+  const i = row * grid.constraints.size + col;
+  let hardest: HintTechnique | null = null;
+  for (let step = findNextStep(grid); step; step = findNextStep(grid)) {
+    if (!hardest || TECHNIQUE_WEIGHTS[step.technique] > TECHNIQUE_WEIGHTS[hardest]) hardest = step.technique;
+    applyStep(grid, step);
+    if (grid.values[i] !== null) return hardest;
+  }
+  return null;
+};
+
+/**
+ * Walks the game's action log (undone moves left out, as in the replay) and lists every
+ * wrong entry, graded or not, with the technique that would have found the right digit
+ * on the board of that moment, plus the number of correct entries in each minute.
+ */
+export const reviewGame = (state: GameState): GameReview => {
+  const actions = state.actions.slice(0, state.actionCursor);
+  const buckets = Math.max(1, Math.ceil(state.time / PACE_BUCKET));
+  const pace: PaceBucket[] = Array.from({ length: buckets }, (_, k) => ({ start: k * PACE_BUCKET, placed: 0, errors: 0 }));
+  const bucketAt = (time: number) => pace[Math.min(buckets - 1, Math.floor(time / PACE_BUCKET))];
+  const mistakes: Mistake[] = [];
+
+  actions.forEach((action, k) => {
+    if (action.type !== 'place') return;
+    const correct = state.solution[action.row][action.col];
+    if (action.value === correct) {
+      bucketAt(action.time).placed++;
+      return;
+    }
+    bucketAt(action.time).errors++;
+    const board = replayActions(state.initialBoard, actions.slice(0, k), state.layout);
+    mistakes.push({
+      step: k + 1,
+      row: action.row,
+      col: action.col,
+      value: action.value,
+      correct,
+      time: action.time,
+      technique: techniqueFor(board, state, action.row, action.col),
+    });
+  });
+
+  return { mistakes, pace };
+};
@@ -0,0 +1,164 @@
+import { CellData, Difficulty, GameAction, GameMode, GameState, GridSize, Variant } from '../types';
+import { parseDifficulty } from './difficultyGrader';
+import { boardProgress, hintBudget } from './gameEngine';
+import { createId } from './random';
+import { CLASSIC_LAYOUT } from './variants';
+
+const SAVE_KEY_PREFIX = 'sudoku-save-';
+const ACTIVE_SLOT_KEY = 'sudoku-active-slot';
+
+export const SAVE_SCHEMA_VERSION = 10;
+export const SAVE_SLOTS = 3;
+
+// Numbered slots hold regular games; each difficulty keeps its latest daily challenge apart
+export type SaveSlot = number | `daily-${Difficulty}`;
+
+export const dailySlot = (difficulty: Difficulty): SaveSlot => `daily-${difficulty}`;
+
+interface SerializedCell extends Omit<CellData, 'notes' | 'cornerNotes'> {
+  notes: number[];
+  cornerNotes: number[];
+}
+
+interface SavedGame {
+  version: number;
+  savedAt: number;
+  state: Omit<GameState, 'board' | 'initialBoard'> & { board: SerializedCell[][]; initialBoard: SerializedCell[][] };
+}
+
+export interface SaveSummary {
+  slot: number;
+  difficulty: Difficulty;
+  variant: Variant;
+  size: GridSize;
+  mode: GameMode;
+  time: number;
+  progress: number;
+  finished: boolean;
+  savedAt: number;
+}
+
+/**
+ * Upgrades a save written with schema version N to version N + 1. When GameState
+ * changes, bump SAVE_SCHEMA_VERSION and add the step that fills in the new shape.
+ */
+const MIGRATIONS: Record<number, (save: SavedGame) => SavedGame> = {
+  // v2: games got an id (for statistics) and a hint counter
+  1: save => ({ ...save, version: 2, state: { ...save.state, id: createId(), hintsUsed: 0 } }),
+  // v3: board snapshots were replaced by an action log; old snapshots cannot be turned into actions
+  2: save => {
+    const { history, ...state } = save.state as SavedGame['state'] & { history?: string[] };
+    return { ...save, version: 3, state: { ...state, initialBoard: state.board, actions: [], actionCursor: 0 } };
+  },
+  // v4: games carry their variant layout; everything before was classic
+  3: save => ({ ...save, version: 4, state: { ...save.state, layout: CLASSIC_LAYOUT } }),
+  // v5: layouts carry the grid size; variant layouts so far were all 9x9
+  4: save => ({ ...save, version: 5, state: { ...save.state, layout: { ...save.state.layout, size: 9 } } }),
+  // v6: corner marks and cell colors; note and erase actions work on several cells at once
+  5: save => {
+    const upgradeBoard = (board: SerializedCell[][]) => board.map(row => row.map(cell => ({ ...cell, cornerNotes: [], color: null })));
+    type LegacyAction = { type: string; row: number; col: number; value: number; time: number };
+    const actions = save.state.actions.map(action => {
+      const { type, row, col, value, time } = action as unknown as LegacyAction;
+      if (type === 'note') return { type, layer: 'center', cells: [[row, col]], value, time } as GameAction;
+      if (type === 'erase') return { type, cells: [[row, col]], time } as GameAction;
+      return action;
+    });
+    const state = { ...save.state, board: upgradeBoard(save.state.board), initialBoard: upgradeBoard(save.state.initialBoard), actions };
+    return { ...save, version: 6, state: { ...state, noteLayer: 'center' } };
+  },
+  // v7: difficulties are stored as stable ids instead of their Portuguese labels
+  6: save => ({ ...save, version: 7, state: { ...save.state, difficulty: parseDifficulty(save.state.difficulty) ?? Difficulty.EASY } }),
+  // v8: daily challenges remember their date
+  7: save => ({ ...save, version: 8, state: { ...save.state, daily: null } }),
+  // v9: hints are limited per difficulty
+  8: save => {
+    const { zenMode } = save.state as SavedGame['state'] & { zenMode: boolean };
+    return { ...save, version: 9, state: { ...save.state, maxHints: hintBudget(save.state.difficulty, zenMode ? GameMode.ZEN : GameMode.NORMAL) } };
+  },
+  // v10: zen became one of the game modes; the timed modes and Survival did not exist yet
+  9: save => {
+    const { zenMode, ...state } = save.state as SavedGame['state'] & { zenMode: boolean };
+    return { ...save, version: 10, state: { ...state, mode: zenMode ? GameMode.ZEN : GameMode.NORMAL, timeLimit: null, bonusUnits: [], chain: 0 } };
+  },
+};
+
+const serializeBoard = (board: CellData[][]): SerializedCell[][] =>
+  board.map(row => row.map(cell => ({ ...cell, notes: Array.from(cell.notes), cornerNotes: Array.from(cell.cornerNotes) })));
+
+const deserializeBoard = (board: SerializedCell[][]): CellData[][] =>
+  board.map(row => row.map(cell => ({ ...cell, notes: new Set(cell.notes), cornerNotes: new Set(cell.cornerNotes) })));
+
+const slotKey = (slot: SaveSlot) => `${SAVE_KEY_PREFIX}${slot}`;
+
+const migrate = (save: SavedGame): SavedGame | null => {
+  let current = save;
+  while (current.version < SAVE_SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) return null;
+    current = step(current);
+  }
+  return current.version === SAVE_SCHEMA_VERSION ? current : null;
+};
+
+const readSave = (slot: SaveSlot): SavedGame | null => {
+  const raw = localStorage.getItem(slotKey(slot));
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as SavedGame;
+    return typeof parsed?.version === 'number' ? migrate(parsed) : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+export const saveGame = (slot: SaveSlot, state: GameState) => {
+  const save: SavedGame = {
+    version: SAVE_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    state: {
+      ...state,
+      board: serializeBoard(state.board),
+      initialBoard: serializeBoard(state.initialBoard),
+    },
+  };
+  localStorage.setItem(slotKey(slot), JSON.stringify(save));
+};
+
+export const loadGame = (slot: SaveSlot): GameState | null => {
+  const save = readSave(slot);
+  if (!save) return null;
+  return {
+    ...save.state,
+    board: deserializeBoard(save.state.board),
+    initialBoard: deserializeBoard(save.state.initialBoard),
+    // Restored games start paused so the clock does not run before the player is back
+    isPaused: !save.state.isGameOver,
+  };
+};
+
+export const deleteGame = (slot: number) => localStorage.removeItem(slotKey(slot));
+
+export const listSaves = (): (SaveSummary | null)[] =>
+  Array.from({ length: SAVE_SLOTS }, (_, slot) => {
+    const save = readSave(slot);
+    if (!save) return null;
+    return {
+      slot,
+      difficulty: save.state.difficulty,
+      variant: save.state.layout.variant,
+      size: save.state.layout.size,
+      mode: save.state.mode,
+      time: save.state.time,
+      progress: boardProgress(save.state.board),
+      finished: save.state.isGameOver,
+      savedAt: save.savedAt,
+    };
+  });
+
+export const getActiveSaveSlot = () => {
+  const slot = Number(localStorage.getItem(ACTIVE_SLOT_KEY));
+  return Number.isInteger(slot) && slot >= 0 && slot < SAVE_SLOTS ? slot : 0;
+};
+
+export const setActiveSaveSlot = (slot: number) => localStorage.setItem(ACTIVE_SLOT_KEY, String(slot));
@@ -0,0 +1,15 @@
+import { Difficulty, GridSize, Variant } from '../types';
+import { generateSudoku } from './sudokuLogic';
+
+export interface GenerateRequest {
+  id: number;
+  difficulty: Difficulty;
+  seed?: number;
+  variant: Variant;
+  size: GridSize;
+}
+
+self.onmessage = (e: MessageEvent<GenerateRequest>) => {
+  const { id, difficulty, seed, variant, size } = e.data;
+  self.postMessage({ id, puzzle: generateSudoku(difficulty, seed, variant, size) });
+};
@@ -0,0 +1,313 @@
+import { CellData, CellDigit, Hint, HintTechnique, HintUnit, UnitKind, VariantLayout } from '../types';
+import { bitCount, digitMask, digitsOf } from './bitmask';
+import { CLASSIC_LAYOUT, ConstraintUnit, Constraints, getConstraints } from './variants';
+
+type Unit = ConstraintUnit;
+
+export interface CandidateGrid {
+  values: (number | null)[];
+  candidates: number[];
+  constraints: Constraints;
+}
+
+// Boxes first: that's where a human usually scans for singles.
+const KIND_ORDER: UnitKind[] = ['box', 'row', 'col', 'diagonal'];
+const scanCache = new WeakMap<Constraints, Unit[]>();
+
+const scanUnits = ({ constraints }: CandidateGrid) => {
+  let units = scanCache.get(constraints);
+  if (!units) {
+    units = [...constraints.units].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+    scanCache.set(constraints, units);
+  }
+  return units;
+};
+
+const toRowCol = (i: number, size: number): [number, number] => [Math.floor(i / size), i % size];
+
+const combinations = <T,>(items: T[], k: number): T[][] => {
+  if (k === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - k; i++) {
+    combinations(items.slice(i + 1), k - 1).forEach(rest => result.push([items[i], ...rest]));
+  }
+  return result;
+};
+
+const unitRef = (u: Unit): HintUnit => ({ kind: u.kind, index: u.index });
+
+const positionsOf = (grid: CandidateGrid, unit: Unit, digit: number) =>
+  unit.cells.filter(i => grid.values[i] === null && grid.candidates[i] & (1 << digit));
+
+const eliminate = (grid: CandidateGrid, cells: Iterable<number>, mask: number): CellDigit[] => {
+  const result: CellDigit[] = [];
+  for (const i of cells) {
+    if (grid.values[i] !== null) continue;
+    const [row, col] = toRowCol(i, grid.constraints.size);
+    digitsOf(grid.candidates[i] & mask).forEach(value => result.push({ row, col, value }));
+  }
+  return result;
+};
+
+const makeHint = (grid: CandidateGrid, technique: HintTechnique, units: Unit[], cells: number[], digits: number[], placement: CellDigit | null, eliminations: CellDigit[]): Hint => ({
+  technique,
+  units: units.map(unitRef),
+  cells: cells.map(i => toRowCol(i, grid.constraints.size)),
+  digits,
+  placement,
+  eliminations
+});
+
+const findNakedSingle = (grid: CandidateGrid): Hint | null => {
+  for (let i = 0; i < grid.values.length; i++) {
+    if (grid.values[i] !== null || bitCount(grid.candidates[i]) !== 1) continue;
+    const [row, col] = toRowCol(i, grid.constraints.size);
+    const value = digitsOf(grid.candidates[i])[0];
+    const box = grid.constraints.cellUnits[i].find(u => u.kind === 'box')!;
+    return makeHint(grid, HintTechnique.NAKED_SINGLE, [box], [i], [value], { row, col, value }, []);
+  }
+  return null;
+};
+
+const findHiddenSingle = (grid: CandidateGrid): Hint | null => {
+  for (const unit of scanUnits(grid)) {
+    for (let d = 1; d <= grid.constraints.size; d++) {
+      if (unit.cells.some(i => grid.values[i] === d)) continue;
+      const positions = positionsOf(grid, unit, d);
+      if (positions.length !== 1) continue;
+      const [row, col] = toRowCol(positions[0], grid.constraints.size);
+      return makeHint(grid, HintTechnique.HIDDEN_SINGLE, [unit], positions, [d], { row, col, value: d }, []);
+    }
+  }
+  return null;
+};
+
+const findNakedSubset = (size: number, technique: HintTechnique) => (grid: CandidateGrid): Hint | null => {
+  for (const unit of scanUnits(grid)) {
+    const pool = unit.cells.filter(i => {
+      if (grid.values[i] !== null) return false;
+      const n = bitCount(grid.candidates[i]);
+      return n >= 2 && n <= size;
+    });
+    for (const combo of combinations(pool, size)) {
+      const mask = combo.reduce((m, i) => m | grid.candidates[i], 0);
+      if (bitCount(mask) !== size) continue;
+      const eliminations = eliminate(grid, unit.cells.filter(i => !combo.includes(i)), mask);
+      if (eliminations.length > 0) return makeHint(grid, technique, [unit], combo, digitsOf(mask), null, eliminations);
+    }
+  }
+  return null;
+};
+
+const findHiddenSubset = (size: number, technique: HintTechnique) => (grid: CandidateGrid): Hint | null => {
+  for (const unit of scanUnits(grid)) {
+    const pool = digitsOf(digitMask(grid.constraints.size)).filter(d => {
+      const n = positionsOf(grid, unit, d).length;
+      return n >= 2 && n <= size;
+    });
+    for (const combo of combinations(pool, size)) {
+      const cells = new Set<number>();
+      combo.forEach(d => positionsOf(grid, unit, d).forEach(i => cells.add(i)));
+      if (cells.size !== size) continue;
+      const mask = combo.reduce((m, d) => m | (1 << d), 0);
+      const eliminations = eliminate(grid, cells, digitMask(grid.constraints.size) & ~mask);
+      if (eliminations.length > 0) return makeHint(grid, technique, [unit], [...cells], combo, null, eliminations);
+    }
+  }
+  return null;
+};
+
+const findPointing = (grid: CandidateGrid): Hint | null => {
+  for (const box of grid.constraints.units.filter(u => u.kind === 'box')) {
+    for (let d = 1; d <= grid.constraints.size; d++) {
+      const positions = positionsOf(grid, box, d);
+      if (positions.length < 2) continue;
+      const line = grid.constraints.cellUnits[positions[0]].find(u =>
+        u.kind !== 'box' && positions.every(i => u.cells.includes(i))
+      );
+      if (!line) continue;
+      const eliminations = eliminate(grid, line.cells.filter(i => !box.cells.includes(i)), 1 << d);
+      if (eliminations.length > 0) return makeHint(grid, HintTechnique.POINTING_PAIR, [box, line], positions, [d], null, eliminations);
+    }
+  }
+  return null;
+};
+
+const findBoxLineReduction = (grid: CandidateGrid): Hint | null => {
+  for (const line of grid.constraints.units.filter(u => u.kind !== 'box')) {
+    for (let d = 1; d <= grid.constraints.size; d++) {
+      const positions = positionsOf(grid, line, d);
+      if (positions.length < 2) continue;
+      const box = grid.constraints.cellUnits[positions[0]].find(u =>
+        u.kind === 'box' && positions.every(i => u.cells.includes(i))
+      );
+      if (!box) continue;
+      const eliminations = eliminate(grid, box.cells.filter(i => !line.cells.includes(i)), 1 << d);
+      if (eliminations.length > 0) return makeHint(grid, HintTechnique.BOX_LINE_REDUCTION, [line, box], positions, [d], null, eliminations);
+    }
+  }
+  return null;
+};
+
+const findFish = (size: number, technique: HintTechnique) => (grid: CandidateGrid): Hint | null => {
+  for (const [baseKind, coverKind] of [['row', 'col'], ['col', 'row']] as [UnitKind, UnitKind][]) {
+    const covers = grid.constraints.units.filter(u => u.kind === coverKind);
+    const gridSize = grid.constraints.size;
+    const coverIndexOf = (i: number) => baseKind === 'row' ? i % gridSize : Math.floor(i / gridSize);
+    for (let d = 1; d <= gridSize; d++) {
+      const bases = grid.constraints.units.filter(u => {
+        if (u.kind !== baseKind) return false;
+        const n = positionsOf(grid, u, d).length;
+        return n >= 2 && n <= size;
+      });
+      for (const combo of combinations(bases, size)) {
+        const positions = combo.flatMap(u => positionsOf(grid, u, d));
+        const coverIndexes = new Set(positions.map(coverIndexOf));
+        if (coverIndexes.size !== size) continue;
+        const coverUnits = covers.filter(u => coverIndexes.has(u.index));
+        const targets = coverUnits.flatMap(u => u.cells).filter(i => !combo.some(b => b.cells.includes(i)));
+        const eliminations = eliminate(grid, targets, 1 << d);
+        if (eliminations.length > 0) return makeHint(grid, technique, [...combo, ...coverUnits], positions, [d], null, eliminations);
+      }
+    }
+  }
+  return null;
+};
+
+const findXYWing = (grid: CandidateGrid): Hint | null => {
+  const { peerSets, cellUnits } = grid.constraints;
+  const bivalue = (i: number) => grid.values[i] === null && bitCount(grid.candidates[i]) === 2;
+  for (let pivot = 0; pivot < grid.values.length; pivot++) {
+    if (!bivalue(pivot)) continue;
+    const pivotMask = grid.candidates[pivot];
+    const wings = [...peerSets[pivot]].filter(i => bivalue(i) && bitCount(grid.candidates[i] & pivotMask) === 1);
+    for (const a of wings) {
+      const z = grid.candidates[a] & ~pivotMask;
+      const expectedB = (pivotMask & ~grid.candidates[a]) | z;
+      for (const b of wings) {
+        if (b === a || grid.candidates[b] !== expectedB) continue;
+        const targets = [...peerSets[a]].filter(i => i !== pivot && i !== b && peerSets[b].has(i));
+        const eliminations = eliminate(grid, targets, z);
+        if (eliminations.length === 0) continue;
+        // Wings seen through an anti-chess move share no unit with the pivot
+        const shared = [a, b].flatMap(x => cellUnits[pivot].find(u => u.cells.includes(x)) ?? []);
+        return makeHint(grid, HintTechnique.XY_WING, shared, [pivot, a, b], digitsOf(pivotMask | z), null, eliminations);
+      }
+    }
+  }
+  return null;
+};
+
+// Killer: the cells of a cage can only hold digits that appear in some combination
+// adding up to the cage sum.
+const findCageCombination = (grid: CandidateGrid): Hint | null => {
+  for (const [index, cage] of grid.constraints.cages.entries()) {
+    const empty = cage.cells.filter(i => grid.values[i] === null);
+    if (empty.length === 0) continue;
+    const target = cage.cells.reduce((sum, i) => sum - (grid.values[i] ?? 0), cage.sum);
+    const possible = empty.map(() => 0);
+    const chosen: number[] = [];
+
+    const walk = (k: number, used: number, remaining: number) => {
+      if (k === empty.length) {
+        if (remaining === 0) chosen.forEach((d, j) => { possible[j] |= 1 << d; });
+        return;
+      }
+      for (const d of digitsOf(grid.candidates[empty[k]] & ~used)) {
+        if (d > remaining) break;
+        chosen[k] = d;
+        walk(k + 1, used | (1 << d), remaining - d);
+      }
+    };
+    walk(0, 0, target);
+
+    const eliminations = empty.flatMap((i, j) => eliminate(grid, [i], ~possible[j]));
+    if (eliminations.length > 0) {
+      const digits = digitsOf(possible.reduce((m, p) => m | p, 0));
+      return makeHint(grid, HintTechnique.CAGE_COMBINATION, [{ kind: 'cage', index, cells: cage.cells }], empty, digits, null, eliminations);
+    }
+  }
+  return null;
+};
+
+// Ordered from the easiest to the hardest technique.
+const STEP_FINDERS: ((grid: CandidateGrid) => Hint | null)[] = [
+  findNakedSingle,
+  findHiddenSingle,
+  findCageCombination,
+  findPointing,
+  findBoxLineReduction,
+  findNakedSubset(2, HintTechnique.NAKED_PAIR),
+  findHiddenSubset(2, HintTechnique.HIDDEN_PAIR),
+  findNakedSubset(3, HintTechnique.NAKED_TRIPLE),
+  findHiddenSubset(3, HintTechnique.HIDDEN_TRIPLE),
+  findFish(2, HintTechnique.X_WING),
+  findXYWing,
+  findFish(3, HintTechnique.SWORDFISH)
+];
+
+export const gridFromValues = (board: (number | null)[][], layout: VariantLayout = CLASSIC_LAYOUT): CandidateGrid => {
+  const constraints = getConstraints(layout);
+  const values = board.flat();
+  const candidates = values.map((value, i) => {
+    if (value !== null) return 0;
+    let mask = digitMask(constraints.size);
+    constraints.peers[i].forEach(p => { if (values[p] !== null) mask &= ~(1 << values[p]!); });
+    return mask;
+  });
+  return { values, candidates, constraints };
+};
+
+/**
+ * Builds the candidate grid a human would be looking at. Wrong entries, including
+ * ones that were not checked yet, are treated as empty cells, and the player's notes
+ * narrow the candidates unless they are known to exclude the correct digit.
+ */
+export const buildCandidateGrid = (board: CellData[][], solution?: number[][], layout?: VariantLayout): CandidateGrid => {
+  const grid = gridFromValues(board.map((row, r) => row.map((cell, c) =>
+    (cell.value !== null && !cell.error && (!solution || cell.value === solution[r][c]) ? cell.value : null))), layout);
+  grid.candidates.forEach((mask, i) => {
+    const [r, c] = toRowCol(i, grid.constraints.size);
+    const notes = board[r][c].notes;
+    const trusted = !solution || notes.has(solution[r][c]);
+    if (mask === 0 || notes.size === 0 || !trusted) return;
+    const noted = [...notes].reduce((m, n) => m | (1 << n), 0);
+    if (mask & noted) grid.candidates[i] = mask & noted;
+  });
+  return grid;
+};
+
+export const applyStep = (grid: CandidateGrid, step: Hint) => {
+  if (step.placement) {
+    const { row, col, value } = step.placement;
+    const i = row * grid.constraints.size + col;
+    grid.values[i] = value;
+    grid.candidates[i] = 0;
+    grid.constraints.peers[i].forEach(p => { grid.candidates[p] &= ~(1 << value); });
+  }
+  step.eliminations.forEach(({ row, col, value }) => { grid.candidates[row * grid.constraints.size + col] &= ~(1 << value); });
+};
+
+export const isGridSolved = (grid: CandidateGrid) => grid.values.every(v => v !== null);
+
+export const cellsOfUnit = (unit: HintUnit, layout?: VariantLayout): [number, number][] => {
+  const constraints = getConstraints(layout);
+  const cells = unit.kind === 'cage'
+    ? constraints.cages[unit.index].cells
+    : constraints.units.find(u => u.kind === unit.kind && u.index === unit.index)!.cells;
+  return cells.map(i => toRowCol(i, constraints.size));
+};
+
+export const candidatesAt = (grid: CandidateGrid, row: number, col: number): number[] =>
+  digitsOf(grid.candidates[row * grid.constraints.size + col]);
+
+export const findNextStep = (grid: CandidateGrid): Hint | null => {
+  for (const finder of STEP_FINDERS) {
+    const hint = finder(grid);
+    if (hint) return hint;
+  }
+  return null;
+};
+
+export const findHint = (board: CellData[][], solution?: number[][], layout?: VariantLayout): Hint | null =>
+  findNextStep(buildCandidateGrid(board, solution, layout));
@@ -0,0 +1,69 @@
+import { Locale } from '../types';
+import ptBR from '../locales/pt-BR';
+import en from '../locales/en';
+import es from '../locales/es';
+
+export type MessageKey = keyof typeof ptBR;
+// Keys with _one/_other forms, named without the suffix
+export type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}_one` ? Base : never) : never;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en, es };
+
+// Each language is listed under its own name, so it can be found whatever the current one is
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'pt-BR', name: 'Português (Brasil)' },
+  { id: 'en', name: 'English' },
+  { id: 'es', name: 'Español' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// First browser language we have a catalog for, matching on the language part only
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (base === 'en' || base === 'es') return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+const interpolate = (message: string, params?: MessageParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // `count` is also available to the message as {count}
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+  const rules = new Intl.PluralRules(locale);
+  const t = (key: MessageKey, params?: MessageParams) => interpolate(catalog[key] ?? ptBR[key] ?? key, params);
+  return {
+    locale,
+    t,
+    plural: (key, count, params) =>
+      t(`${key}_${rules.select(count) === 'one' ? 'one' : 'other'}` as MessageKey, { ...params, count }),
+  };
+};
+
+/**
+ * Errors meant for the player. Modules outside the UI throw the catalog key and its
+ * parameters, and the UI turns them into text in the current language.
+ */
+export class MessageError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(interpolate(ptBR[key], params));
+    this.name = 'MessageError';
+  }
+}
+
+export const errorMessage = (err: unknown, { t }: Translator) =>
+  err instanceof MessageError ? t(err.key, err.params) : err instanceof Error ? err.message : String(err);
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, Variant } from '../types';
+import { decodePuzzleCode, encodePuzzleCode } from './puzzleCode';
+
+describe('decodePuzzleCode', () => {
+  it('reads back what encodePuzzleCode wrote', () => {
+    const code = encodePuzzleCode(Difficulty.HARD, 123456, Variant.KILLER, 6);
+    expect(decodePuzzleCode(code)).toEqual({ difficulty: Difficulty.HARD, variant: Variant.KILLER, size: 6, seed: 123456 });
+  });
+
+  it('rejects variants in a size they do not come in', () => {
+    expect(decodePuzzleCode('EJ16-0000001')).toBeNull();
+    expect(decodePuzzleCode('EG4-0000001')).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { Difficulty, GridSize, Variant } from '../types';
+import { VARIANT_SIZES } from './variants';
+
+const DIFFICULTY_PREFIX: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'E',
+  [Difficulty.MEDIUM]: 'M',
+  [Difficulty.HARD]: 'H',
+  [Difficulty.EXPERT]: 'X',
+};
+
+// Classic puzzles have no variant letter, so codes from before variants still decode
+const VARIANT_SUFFIX: Record<Variant, string> = {
+  [Variant.CLASSIC]: '',
+  [Variant.DIAGONAL]: 'D',
+  [Variant.JIGSAW]: 'J',
+  [Variant.KILLER]: 'K',
+  [Variant.ANTI_KNIGHT]: 'N',
+  [Variant.ANTI_KING]: 'G',
+};
+
+// Codes look like "H-0K3F9QZ", "HK-0K3F9QZ" or "E16-0K3F9QZ": difficulty, variant and
+// grid size (omitted for 9x9), then the seed in base 36
+export const encodePuzzleCode = (difficulty: Difficulty, seed: number, variant: Variant = Variant.CLASSIC, size: GridSize = 9) =>
+  `${DIFFICULTY_PREFIX[difficulty]}${VARIANT_SUFFIX[variant]}${size === 9 ? '' : size}-${(seed >>> 0).toString(36).toUpperCase().padStart(7, '0')}`;
+
+export const decodePuzzleCode = (code: string): { difficulty: Difficulty; variant: Variant; size: GridSize; seed: number } | null => {
+  const normalized = code.trim().toUpperCase();
+  // Without the dash only full-length seeds are unambiguous, since variant letters and sizes are also base 36 digits
+  const match = /^([EMHX])([DJKNG]?)(4|6|16)?-([0-9A-Z]{1,7})$/.exec(normalized)
+    ?? /^([EMHX])([DJKNG]?)(4|6|16)?([0-9A-Z]{7})$/.exec(normalized);
+  if (!match) return null;
+  const difficulty = (Object.keys(DIFFICULTY_PREFIX) as Difficulty[]).find(d => DIFFICULTY_PREFIX[d] === match[1])!;
+  const variant = (Object.keys(VARIANT_SUFFIX) as Variant[]).find(v => VARIANT_SUFFIX[v] === match[2])!;
+  const size = (match[3] ? Number(match[3]) : 9) as GridSize;
+  const seed = parseInt(match[4], 36);
+  // Not every variant exists in every size (no 16x16 Jigsaw, no 4x4 Anti-King)
+  if (seed > 0xffffffff || !VARIANT_SIZES[variant].includes(size)) return null;
+  return { difficulty, variant, size, seed };
+};
@@ -0,0 +1,70 @@
+import { CellDigit } from '../types';
+import { ImportedPuzzle, importPuzzle } from './puzzleFormats';
+import { countSolutionsWithin, isValid, solveSudoku } from './sudokuLogic';
+
+export type SolutionCount = 'none' | 'unique' | 'multiple' | 'unknown';
+
+export interface GridAnalysis {
+  conflicts: Set<number>; // Cells (r * 9 + c) whose digit repeats in their row, column or box
+  givens: number;
+  solutions: SolutionCount;
+}
+
+export interface ClueSuggestion {
+  clue: CellDigit;
+  unique: boolean; // False when no single clue is enough; the suggestion then only narrows the grid down
+}
+
+// The analysis runs on every keystroke and a clue suggestion tries every empty cell, all on
+// the main thread, so their searches are capped; a grid that takes longer to settle is left
+// as unknown until more digits narrow it down
+const ANALYSIS_NODE_BUDGET = 50000;
+const CLUE_NODE_BUDGET = 2000;
+
+const copyGrid = (grid: (number | null)[][]) => grid.map(row => [...row]);
+
+const emptyCells = (grid: (number | null)[][]): [number, number][] =>
+  grid.flatMap((row, r) => row.flatMap((value, c): [number, number][] => (value === null ? [[r, c]] : [])));
+
+export const findConflicts = (grid: (number | null)[][]) => {
+  const conflicts = new Set<number>();
+  grid.forEach((row, r) => row.forEach((value, c) => {
+    if (value !== null && !isValid(grid, r, c, value)) conflicts.add(r * grid.length + c);
+  }));
+  return conflicts;
+};
+
+export const analyzeGrid = (grid: (number | null)[][]): GridAnalysis => {
+  const conflicts = findConflicts(grid);
+  const givens = grid.flat().filter(v => v !== null).length;
+  if (conflicts.size > 0) return { conflicts, givens, solutions: 'none' };
+  const count = countSolutionsWithin(grid, ANALYSIS_NODE_BUDGET);
+  return { conflicts, givens, solutions: count === null ? 'unknown' : count === 0 ? 'none' : count === 1 ? 'unique' : 'multiple' };
+};
+
+/**
+ * Picks a clue from one of the solutions that rules out all the others. When no single
+ * clue can, it falls back to the empty cell with the most candidates, where the
+ * solutions are most likely to disagree.
+ */
+export const suggestClue = (grid: (number | null)[][]): ClueSuggestion | null => {
+  const solution = copyGrid(grid);
+  if (!solveSudoku(solution)) return null;
+  const empty = emptyCells(grid);
+  if (empty.length === 0) return null;
+
+  for (const [row, col] of empty) {
+    const next = copyGrid(grid);
+    next[row][col] = solution[row][col];
+    // A check that runs out of budget counts as not unique yet
+    if (countSolutionsWithin(next, CLUE_NODE_BUDGET) === 1) return { clue: { row, col, value: solution[row][col]! }, unique: true };
+  }
+
+  const candidates = ([r, c]: [number, number]) => Array.from({ length: grid.length }, (_, n) => n + 1).filter(d => isValid(grid, r, c, d)).length;
+  const [row, col] = empty.reduce((best, cell) => (candidates(cell) > candidates(best) ? cell : best));
+  return { clue: { row, col, value: solution[row][col]! }, unique: false };
+};
+
+// Goes through the importer, which checks the grid again, solves it and rates it
+export const lockGivens = (grid: (number | null)[][]): ImportedPuzzle =>
+  importPuzzle(grid.flat().map(v => v ?? '.').join(''));
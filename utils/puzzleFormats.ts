@@ -0,0 +1,159 @@
+import { CellData, Difficulty, PuzzleRating } from '../types';
+import { countSolutions, isValid, solveSudoku } from './sudokuLogic';
+import { difficultyForRating, gradePuzzle } from './difficultyGrader';
+import { MessageError } from './i18n';
+
+export type PuzzleFormat = 'line' | 'sdk' | 'ss' | 'json';
+
+// Labels are in the message catalogs under `format.<id>`
+export const PUZZLE_FORMATS: { id: PuzzleFormat; extension: string }[] = [
+  { id: 'line', extension: 'txt' },
+  { id: 'sdk', extension: 'sdk' },
+  { id: 'ss', extension: 'ss' },
+  { id: 'json', extension: 'json' },
+];
+
+interface PuzzleJson {
+  format: 'neon-sudoku';
+  version: 1;
+  givens: string;
+  entries?: string;
+  notes?: number[][];
+  time?: number;
+  errors?: number;
+}
+
+export interface ImportedPuzzle {
+  puzzle: (number | null)[][];
+  solution: number[][];
+  rating: PuzzleRating;
+  difficulty: Difficulty;
+  entries: (number | null)[][] | null;
+  notes: number[][][] | null;
+  time: number;
+  errors: number;
+}
+
+const toGrid = <T,>(flat: T[]): T[][] => Array.from({ length: 9 }, (_, r) => flat.slice(r * 9, r * 9 + 9));
+
+// Accepts the 81-character line as well as .sdk/.ss grids: comments, separators and whitespace are ignored
+const parseCells = (text: string): (number | null)[] => {
+  // Sectioned .sdk files keep the givens under [Puzzle]
+  const section = /\[Puzzle\]([\s\S]*?)(?:\n\s*\[|$)/i.exec(text);
+  const body = (section ? section[1] : text)
+    .split(/\r?\n/)
+    .filter(line => !/^\s*[#\[]/.test(line))
+    .join('')
+    .replace(/[\s|+\-]/g, '');
+  const invalid = body.match(/[^0-9.xX_]/);
+  if (invalid) throw new MessageError('error.unexpectedChar', { char: invalid[0] });
+  if (body.length !== 81) throw new MessageError('error.cellCount', { count: body.length });
+  return [...body].map(ch => (/[1-9]/.test(ch) ? Number(ch) : null));
+};
+
+const parseJson = (text: string): { givens: (number | null)[]; data: PuzzleJson } => {
+  let data: PuzzleJson;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MessageError('error.invalidJson');
+  }
+  if (data?.format !== 'neon-sudoku' || typeof data.givens !== 'string') {
+    throw new MessageError('error.unknownJson');
+  }
+  if (data.notes && (!Array.isArray(data.notes) || data.notes.length !== 81)) {
+    throw new MessageError('error.notesLength');
+  }
+  if (data.notes?.some(list => !Array.isArray(list))) throw new MessageError('error.notesList');
+  // Progress fields are optional, but a present one must be a count
+  const isCount = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+  if (!isCount(data.time) || !isCount(data.errors)) throw new MessageError('error.invalidProgress');
+  return { givens: parseCells(data.givens), data };
+};
+
+const checkConflicts = (puzzle: (number | null)[][]) => {
+  for (let r = 0; r < 9; r++) {
+    for (let c = 0; c < 9; c++) {
+      const value = puzzle[r][c];
+      if (value === null) continue;
+      puzzle[r][c] = null;
+      const ok = isValid(puzzle, r, c, value);
+      puzzle[r][c] = value;
+      if (!ok) throw new MessageError('error.conflict', { digit: value, row: r + 1, col: c + 1 });
+    }
+  }
+};
+
+/**
+ * Parses any supported format, then checks the shape, conflicting givens and that
+ * the puzzle has exactly one solution. Every failure throws a MessageError meant for
+ * the player.
+ */
+export const importPuzzle = (text: string): ImportedPuzzle => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new MessageError('error.nothingToImport');
+
+  const isJson = trimmed.startsWith('{');
+  const { givens, data } = isJson ? parseJson(trimmed) : { givens: parseCells(trimmed), data: null };
+  const puzzle = toGrid(givens);
+
+  checkConflicts(puzzle);
+  const solutions = countSolutions(puzzle);
+  if (solutions === 0) throw new MessageError('error.noSolution');
+  if (solutions > 1) throw new MessageError('error.multipleSolutions');
+
+  const solved = puzzle.map(row => [...row]);
+  solveSudoku(solved);
+  const rating = gradePuzzle(puzzle);
+
+  let entries: (number | null)[][] | null = null;
+  if (data?.entries) {
+    const flat = parseCells(data.entries);
+    if (flat.some((v, i) => v !== null && givens[i] !== null)) throw new MessageError('error.entriesOnGivens');
+    entries = toGrid(flat);
+  }
+  const notes = data?.notes ? toGrid(data.notes.map(list => list.filter(n => Number.isInteger(n) && n >= 1 && n <= 9))) : null;
+
+  return {
+    puzzle,
+    solution: solved as number[][],
+    rating,
+    difficulty: difficultyForRating(rating),
+    entries,
+    notes,
+    time: data?.time ?? 0,
+    errors: data?.errors ?? 0,
+  };
+};
+
+const cellChar = (cell: CellData, includeEntries: boolean) =>
+  cell.value !== null && (cell.fixed || includeEntries) ? String(cell.value) : '.';
+
+export const exportPuzzle = (board: CellData[][], format: PuzzleFormat, includeEntries: boolean, progress?: { time: number; errors: number }): string => {
+  const rows = board.map(row => row.map(cell => cellChar(cell, includeEntries)).join(''));
+  switch (format) {
+    case 'line':
+      return rows.join('');
+    case 'sdk':
+      return rows.join('\n');
+    case 'ss':
+      return rows
+        .map(row => `${row.slice(0, 3)}|${row.slice(3, 6)}|${row.slice(6)}`)
+        .flatMap((line, r) => (r === 3 || r === 6 ? ['-----------', line] : [line]))
+        .join('\n');
+    case 'json': {
+      const cells = board.flat();
+      const data: PuzzleJson = {
+        format: 'neon-sudoku',
+        version: 1,
+        givens: cells.map(cell => (cell.fixed ? String(cell.value) : '.')).join(''),
+      };
+      if (includeEntries) {
+        data.entries = cells.map(cell => (!cell.fixed && cell.value !== null ? String(cell.value) : '.')).join('');
+        data.notes = cells.map(cell => [...cell.notes].sort((a, b) => a - b));
+        if (progress) Object.assign(data, progress);
+      }
+      return JSON.stringify(data, null, 2);
+    }
+  }
+};
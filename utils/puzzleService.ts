@@ -0,0 +1,135 @@
+import { Difficulty, GeneratedPuzzle, GridSize, Variant } from '../types';
+import { generateSudoku } from './sudokuLogic';
+import type { GenerateRequest } from './generator.worker';
+
+// Classic 9x9 puzzles kept ready per difficulty so "Novo Jogo" can start instantly
+const POOL_SIZE = 2;
+
+interface Job {
+  id: number;
+  difficulty: Difficulty;
+  seed?: number;
+  variant: Variant;
+  size: GridSize;
+  resolve: (puzzle: GeneratedPuzzle | null) => void;
+  forPool: boolean;
+}
+
+export interface PuzzleRequest {
+  promise: Promise<GeneratedPuzzle | null>; // Resolves to null when cancelled or when generation fails
+  cancel: () => void;
+}
+
+const pool: Record<Difficulty, GeneratedPuzzle[]> = {
+  [Difficulty.EASY]: [],
+  [Difficulty.MEDIUM]: [],
+  [Difficulty.HARD]: [],
+  [Difficulty.EXPERT]: [],
+};
+
+const queue: Job[] = [];
+let running: Job | null = null;
+let worker: Worker | null = null;
+let nextId = 0;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./generator.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number; puzzle: GeneratedPuzzle }>) => {
+      const job = running;
+      running = null;
+      if (job && job.id === e.data.id) job.resolve(e.data.puzzle);
+      pump();
+    };
+    // A generation that throws gives up on its job and starts a fresh worker for the rest of the queue
+    worker.onerror = worker.onmessageerror = (e: Event) => {
+      e.preventDefault();
+      const job = running;
+      worker?.terminate();
+      worker = null;
+      running = null;
+      job?.resolve(null);
+      pump();
+    };
+  }
+  return worker;
+};
+
+const pump = () => {
+  if (running || queue.length === 0) return;
+  running = queue.shift()!;
+  const { id, difficulty, seed, variant, size } = running;
+  getWorker().postMessage({ id, difficulty, seed, variant, size } satisfies GenerateRequest);
+};
+
+const pendingFor = (difficulty: Difficulty) =>
+  queue.filter(j => j.forPool && j.difficulty === difficulty).length
+  + (running?.forPool && running.difficulty === difficulty ? 1 : 0);
+
+const refill = (difficulty: Difficulty) => {
+  for (let n = pool[difficulty].length + pendingFor(difficulty); n < POOL_SIZE; n++) {
+    queue.push({ id: nextId++, difficulty, variant: Variant.CLASSIC, size: 9, forPool: true, resolve: p => { if (p) pool[difficulty].push(p); } });
+  }
+  pump();
+};
+
+export const warmPool = () => {
+  if (typeof Worker === 'undefined') return;
+  Object.values(Difficulty).forEach(refill);
+};
+
+/**
+ * Hands out a pooled puzzle when one is ready, otherwise generates one in the worker
+ * ahead of any pool refills. Cancelling a running generation terminates the worker.
+ * Seeded, variant and other-size requests always generate, since only random classic
+ * 9x9 puzzles are pooled.
+ */
+export const requestPuzzle = (difficulty: Difficulty, seed?: number, variant: Variant = Variant.CLASSIC, size: GridSize = 9): PuzzleRequest => {
+  if (typeof Worker === 'undefined') {
+    let puzzle: GeneratedPuzzle | null = null;
+    try {
+      puzzle = generateSudoku(difficulty, seed, variant, size);
+    } catch {
+      // Fails like the worker does: the caller gets null
+    }
+    return { promise: Promise.resolve(puzzle), cancel: () => {} };
+  }
+
+  const poolable = seed === undefined && variant === Variant.CLASSIC && size === 9;
+  const pooled = poolable ? pool[difficulty].shift() : undefined;
+  if (pooled) {
+    refill(difficulty);
+    return { promise: Promise.resolve(pooled), cancel: () => {} };
+  }
+
+  let job: Job;
+  const promise = new Promise<GeneratedPuzzle | null>(resolve => {
+    // A refill for the same difficulty already being generated is taken over instead of waiting behind it
+    if (poolable && running?.forPool && running.difficulty === difficulty) {
+      job = running;
+      job.forPool = false;
+      job.resolve = resolve;
+    } else {
+      job = { id: nextId++, difficulty, seed, variant, size, resolve, forPool: false };
+      queue.unshift(job);
+    }
+  });
+  pump();
+
+  const cancel = () => {
+    if (running === job) {
+      worker?.terminate();
+      worker = null;
+      running = null;
+    } else {
+      const index = queue.indexOf(job);
+      if (index === -1) return;
+      queue.splice(index, 1);
+    }
+    job.resolve(null);
+    pump();
+  };
+
+  promise.then(() => refill(difficulty));
+  return { promise, cancel };
+};
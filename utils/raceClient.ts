@@ -0,0 +1,114 @@
+import { Difficulty, RaceState } from '../types';
+import { MessageError } from './i18n';
+
+// Port of the bundled relay (server/raceRelay.js, `npm run race`)
+export const RACE_PORT = 8787;
+const RETRY_DELAYS = [1000, 2000, 4000, 8000];
+
+export type RaceConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'rejected';
+
+// What a client streams to the relay: never the digits themselves
+export interface RaceReport {
+  round: number; // The relay drops reports for any other race, e.g. replayed after a rematch
+  progress: number;
+  errors: number;
+  maxErrors: number;
+  finishTime: number | null;
+  out: boolean;
+}
+
+export interface RaceListener {
+  onStatus: (status: RaceConnectionStatus) => void;
+  onState: (race: RaceState, playerId: string) => void;
+}
+
+export interface RaceConnection {
+  start: (difficulty: Difficulty) => void;
+  report: (report: RaceReport) => void;
+  leave: () => void;
+}
+
+type RelayMessage =
+  | { type: 'welcome'; playerId: string }
+  | { type: 'state'; race: RaceState }
+  | { type: 'rejected'; reason: 'room' | 'full' };
+
+export const defaultRaceUrl = () => `ws://${window.location.hostname || 'localhost'}:${RACE_PORT}`;
+
+/**
+ * Joins a room on the relay and keeps the connection alive: a dropped socket is
+ * reopened with growing delays and resumes the same player, resending the last report.
+ * Throws a MessageError right away when the address is not a WebSocket URL.
+ */
+export const connectRace = (url: string, room: string, name: string, listener: RaceListener, playerId: string | null = null): RaceConnection => {
+  let address: URL;
+  try {
+    address = new URL(url.trim());
+  } catch {
+    throw new MessageError('race.invalidUrl');
+  }
+  if (address.protocol !== 'ws:' && address.protocol !== 'wss:') throw new MessageError('race.invalidUrl');
+
+  let socket: WebSocket | null = null;
+  let id = playerId;
+  let lastReport: string | null = null;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const open = () => {
+    const current = new WebSocket(address);
+    socket = current;
+    listener.onStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    current.onopen = () => send({ type: 'join', room, name, playerId: id });
+    current.onmessage = e => {
+      // A frame that is not a JSON object is dropped, as the relay does with the clients' ones
+      let message: RelayMessage;
+      try {
+        message = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (typeof message !== 'object' || message === null) return;
+      if (message.type === 'welcome') {
+        id = message.playerId;
+        attempt = 0;
+        listener.onStatus('connected');
+        if (lastReport) current.send(lastReport);
+      } else if (message.type === 'state' && id) {
+        listener.onState(message.race, id);
+      } else if (message.type === 'rejected') {
+        closed = true;
+        listener.onStatus('rejected');
+        current.close();
+      }
+    };
+    current.onclose = () => {
+      if (closed || socket !== current) return;
+      listener.onStatus('reconnecting');
+      retryTimer = setTimeout(open, RETRY_DELAYS[Math.min(attempt, RETRY_DELAYS.length - 1)]);
+      attempt++;
+    };
+  };
+  open();
+
+  return {
+    start: difficulty => send({ type: 'start', difficulty }),
+    report: report => {
+      const message = JSON.stringify({ type: 'progress', ...report });
+      if (message === lastReport) return;
+      lastReport = message;
+      if (socket?.readyState === WebSocket.OPEN) socket.send(message);
+    },
+    leave: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      send({ type: 'leave' });
+      socket?.close();
+    },
+  };
+};
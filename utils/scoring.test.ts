@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { GameCommand, runCommand } from './gameEngine';
+import { scoreGame } from './scoring';
+import { newGame, OPTIONS, SOLUTION } from './testFixtures';
+
+// The first row left open, everything else given
+const ROW_OPEN = '0'.repeat(9) + SOLUTION.slice(9);
+
+const play = (commands: GameCommand[]) =>
+  commands.reduce((state: GameState, command) => runCommand(state, command, OPTIONS).state, newGame(ROW_OPEN));
+
+const fillRow = (cols: number[]): GameCommand[] => cols.map(col => ({ type: 'place', row: 0, col, value: Number(SOLUTION[col]) }));
+
+describe('scoreGame', () => {
+  it('rewards streaks and the units the player completes', () => {
+    const score = scoreGame(play(fillRow([0, 1, 2, 3, 4, 5, 6, 7, 8])));
+    expect(score.entries).toBe(90);
+    // The n-th entry of a streak earns 2 * (n - 1)
+    expect(score.streaks).toBe(72);
+    // The row and its three boxes; the columns were each missing a single cell too
+    expect(score.units).toBe(50 * 13);
+    expect(score.errors).toBe(0);
+    expect(score.hints).toBe(0);
+  });
+
+  it('breaks the streak and charges for errors and hints', () => {
+    const clean = scoreGame(play(fillRow([0, 1, 2, 3, 4, 5, 6, 7, 8])));
+    const sloppy = scoreGame(play([
+      ...fillRow([0, 1, 2, 3]),
+      { type: 'place', row: 0, col: 4, value: 1 },
+      ...fillRow([4, 5, 6, 7]),
+      { type: 'select', cell: [0, 8] },
+      { type: 'hint', hint: null },
+    ]));
+    expect(sloppy.errors).toBe(100);
+    expect(sloppy.hints).toBe(75);
+    expect(sloppy.streaks).toBeLessThan(clean.streaks);
+    expect(sloppy.total).toBeLessThan(clean.total);
+  });
+
+  it('scores each cell once, however often its digit is typed', () => {
+    const once = scoreGame(play(fillRow([0])));
+    const farmed = scoreGame(play([
+      ...fillRow([0, 0, 0]),
+      { type: 'erase', cells: [[0, 0]] },
+      ...fillRow([0]),
+    ]));
+    expect(farmed.entries).toBe(once.entries);
+    expect(farmed.streaks).toBe(once.streaks);
+  });
+
+  it('ignores undone moves', () => {
+    const undone = play([...fillRow([0, 1]), { type: 'undo' }]);
+    expect(scoreGame(undone).entries).toBe(10);
+  });
+});
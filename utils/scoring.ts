@@ -0,0 +1,141 @@
+import { Difficulty, GameState, LeaderboardEntry } from '../types';
+import { getConstraints } from './variants';
+
+const LEADERBOARD_KEY = 'sudoku-leaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+const DIFFICULTY_MULTIPLIER: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 1,
+  [Difficulty.MEDIUM]: 1.5,
+  [Difficulty.HARD]: 2,
+  [Difficulty.EXPERT]: 3,
+};
+// Seconds for a 9x9 grid; every second under par is worth SPEED_POINTS. Scaled by cell count
+const PAR_TIME: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 600,
+  [Difficulty.MEDIUM]: 900,
+  [Difficulty.HARD]: 1500,
+  [Difficulty.EXPERT]: 2400,
+};
+const ENTRY_POINTS = 10;
+const STREAK_POINTS = 2; // Per correct entry already in the running streak, up to MAX_STREAK
+const MAX_STREAK = 10;
+const UNIT_POINTS = 50;
+const SPEED_POINTS = 1;
+const ERROR_PENALTY = 100;
+const HINT_PENALTY = 75;
+
+export interface ScoreBreakdown {
+  entries: number;
+  streaks: number;
+  units: number;
+  speed: number;
+  errors: number; // Penalties, subtracted from the total
+  hints: number;
+  multiplier: number;
+  total: number;
+}
+
+export type Leaderboard = Record<Difficulty, LeaderboardEntry[]>;
+
+/**
+ * Scores a game from its action log, so undone moves do not count. Correct entries
+ * earn more the longer the streak they extend (a wrong entry or a hint breaks it), and
+ * each row, column, box or variant unit completed by the player's own entry earns a bonus.
+ * A cell scores its entry only once: erasing a right digit and typing it again earns nothing.
+ * Errors and hints are charged from the game's counters.
+ */
+export const scoreGame = (state: GameState): ScoreBreakdown => {
+  const { size, cellCount, units, cellUnitIndexes } = getConstraints(state.layout);
+  const values = state.initialBoard.flat().map(cell => cell.value);
+  const solution = state.solution.flat();
+  const completed = new Set<number>();
+  const scored = new Set<number>();
+  const isComplete = (k: number) => units[k].cells.every(i => values[i] === solution[i]);
+  // Units already whole before the first move (or through a hint) never score
+  units.forEach((_, k) => { if (isComplete(k)) completed.add(k); });
+
+  let entries = 0, streaks = 0, unitPoints = 0, streak = 0;
+  const closeUnits = (i: number, scored: boolean) => cellUnitIndexes[i].forEach(k => {
+    if (completed.has(k) || !isComplete(k)) return;
+    completed.add(k);
+    if (scored) unitPoints += UNIT_POINTS;
+  });
+
+  state.actions.slice(0, state.actionCursor).forEach(action => {
+    switch (action.type) {
+      case 'place': {
+        const i = action.row * size + action.col;
+        values[i] = action.value;
+        if (action.value !== solution[i]) {
+          streak = 0;
+          break;
+        }
+        if (scored.has(i)) break;
+        scored.add(i);
+        entries += ENTRY_POINTS;
+        streaks += STREAK_POINTS * Math.min(streak, MAX_STREAK);
+        streak++;
+        closeUnits(i, true);
+        break;
+      }
+      case 'erase':
+        action.cells.forEach(([r, c]) => { values[r * size + c] = null; });
+        break;
+      case 'hint':
+        streak = 0;
+        if (action.placement) {
+          const i = action.placement.row * size + action.placement.col;
+          values[i] = action.placement.value;
+          closeUnits(i, false);
+        }
+        break;
+    }
+  });
+
+  const par = Math.round((PAR_TIME[state.difficulty] * cellCount) / 81);
+  const speed = Math.max(0, par - state.time) * SPEED_POINTS;
+  const errors = state.errors * ERROR_PENALTY;
+  const hints = state.hintsUsed * HINT_PENALTY;
+  const multiplier = DIFFICULTY_MULTIPLIER[state.difficulty];
+  const total = Math.max(0, Math.round((entries + streaks + unitPoints + speed - errors - hints) * multiplier));
+  return { entries, streaks, units: unitPoints, speed, errors, hints, multiplier, total };
+};
+
+const emptyLeaderboard = (): Leaderboard => ({
+  [Difficulty.EASY]: [],
+  [Difficulty.MEDIUM]: [],
+  [Difficulty.HARD]: [],
+  [Difficulty.EXPERT]: [],
+});
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.gameId === 'string' && typeof entry.score === 'number' && typeof entry.time === 'number' && typeof entry.date === 'string';
+};
+
+// Higher score first; on a tie the faster game, then the earlier one
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.time - b.time || a.date.localeCompare(b.date);
+
+export const loadLeaderboard = (): Leaderboard => {
+  const board = emptyLeaderboard();
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) ?? '{}');
+    Object.values(Difficulty).forEach(d => {
+      if (Array.isArray(parsed?.[d])) board[d] = parsed[d].filter(isEntry).sort(byRank).slice(0, LEADERBOARD_SIZE);
+    });
+  } catch (err) {
+    // A corrupt leaderboard starts over empty
+  }
+  return board;
+};
+
+// Keeps the top LEADERBOARD_SIZE of each difficulty; recording the same game twice is a no-op
+export const recordScore = (difficulty: Difficulty, entry: LeaderboardEntry): Leaderboard => {
+  const board = loadLeaderboard();
+  if (board[difficulty].some(e => e.gameId === entry.gameId)) return board;
+  board[difficulty] = [...board[difficulty], entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+  localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(board));
+  return board;
+};
@@ -0,0 +1,130 @@
+import { Difficulty, GameMode, GameRecord } from '../types';
+import { parseDifficulty } from './difficultyGrader';
+import { MessageError } from './i18n';
+
+const STATS_KEY = 'sudoku-stats';
+const STATS_EXPORT_FORMAT = 'neon-sudoku-stats';
+
+export interface DifficultyStats {
+  played: number;
+  won: number;
+  winRate: number;
+  bestTime: number | null;
+  averageTime: number | null;
+}
+
+export interface StatsSummary {
+  byDifficulty: Record<Difficulty, DifficultyStats>;
+  played: number;
+  winRate: number;
+  currentStreak: number;
+  longestStreak: number;
+  recent: GameRecord[];
+}
+
+const isGameRecord = (value: unknown): value is GameRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.id === 'string'
+    && Object.values(Difficulty).includes(record.difficulty as Difficulty)
+    && Object.values(GameMode).includes(record.mode as GameMode)
+    && typeof record.time === 'number'
+    && typeof record.errors === 'number'
+    && typeof record.hintsUsed === 'number'
+    && typeof record.won === 'boolean'
+    && typeof record.date === 'string';
+};
+
+// Records written before the difficulty ids carry the Portuguese labels instead, the ones
+// written before the game modes only tell whether the game was zen, and a record missing
+// its error or hint count is taken as a game without any
+const upgradeRecord = (value: unknown) => {
+  if (typeof value !== 'object' || value === null) return value;
+  const { zenMode, ...record } = value as Record<string, unknown>;
+  return {
+    ...record,
+    difficulty: parseDifficulty(record.difficulty),
+    mode: record.mode ?? (zenMode ? GameMode.ZEN : GameMode.NORMAL),
+    errors: record.errors ?? 0,
+    hintsUsed: record.hintsUsed ?? 0,
+  };
+};
+
+const byDate = (a: GameRecord, b: GameRecord) => a.date.localeCompare(b.date);
+
+export const loadStats = (): GameRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STATS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.map(upgradeRecord).filter(isGameRecord) : [];
+  } catch (err) {
+    return [];
+  }
+};
+
+const saveStats = (records: GameRecord[]) => localStorage.setItem(STATS_KEY, JSON.stringify(records));
+
+// Games are keyed by id, so recording the same finished game twice is a no-op
+export const recordGame = (record: GameRecord): GameRecord[] => {
+  const records = loadStats();
+  if (records.some(r => r.id === record.id)) return records;
+  const updated = [...records, record].sort(byDate);
+  saveStats(updated);
+  return updated;
+};
+
+const summarize = (records: GameRecord[]): DifficultyStats => {
+  const wins = records.filter(r => r.won);
+  return {
+    played: records.length,
+    won: wins.length,
+    winRate: records.length ? wins.length / records.length : 0,
+    bestTime: wins.length ? Math.min(...wins.map(r => r.time)) : null,
+    averageTime: wins.length ? Math.round(wins.reduce((sum, r) => sum + r.time, 0) / wins.length) : null,
+  };
+};
+
+export const summarizeStats = (records: GameRecord[]): StatsSummary => {
+  const sorted = [...records].sort(byDate);
+  let currentStreak = 0, longestStreak = 0;
+  sorted.forEach(r => {
+    currentStreak = r.won ? currentStreak + 1 : 0;
+    longestStreak = Math.max(longestStreak, currentStreak);
+  });
+
+  const byDifficulty = Object.fromEntries(
+    Object.values(Difficulty).map(d => [d, summarize(sorted.filter(r => r.difficulty === d))])
+  ) as Record<Difficulty, DifficultyStats>;
+
+  return {
+    byDifficulty,
+    played: sorted.length,
+    winRate: summarize(sorted).winRate,
+    currentStreak,
+    longestStreak,
+    recent: sorted.slice(-10).reverse(),
+  };
+};
+
+export const exportStats = () =>
+  JSON.stringify({ format: STATS_EXPORT_FORMAT, version: 1, games: loadStats() }, null, 2);
+
+// Imported games are merged with the local ones; games already present are kept as they are
+export const importStats = (text: string): GameRecord[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new MessageError('error.invalidJson');
+  }
+  if (typeof data !== 'object' || data === null || !('format' in data) || data.format !== STATS_EXPORT_FORMAT || !('games' in data) || !Array.isArray(data.games)) {
+    throw new MessageError('error.unknownStatsFile');
+  }
+  const incoming = data.games.map(upgradeRecord).filter(isGameRecord);
+  if (incoming.length !== data.games.length) throw new MessageError('error.invalidGames');
+
+  const records = loadStats();
+  const known = new Set(records.map(r => r.id));
+  const merged = [...records, ...incoming.filter(r => !known.has(r.id))].sort(byDate);
+  saveStats(merged);
+  return merged;
+};
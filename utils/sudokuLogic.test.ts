@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, Variant } from '../types';
+import { countSolutions, countSolutionsWithin, generateSudoku, isValid, solveSudoku } from './sudokuLogic';
+import { getConstraints } from './variants';
+
+const toGrid = (line: string) =>
+  Array.from({ length: 9 }, (_, r) => [...line.slice(r * 9, r * 9 + 9)].map(ch => (ch === '0' ? null : Number(ch))));
+
+const PUZZLE = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+const SOLUTION = '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+
+describe('solveSudoku', () => {
+  it('finds the solution of a classic puzzle', () => {
+    const board = toGrid(PUZZLE);
+    expect(solveSudoku(board)).toBe(true);
+    expect(board).toEqual(toGrid(SOLUTION));
+  });
+
+  it('rejects a puzzle with a repeated digit', () => {
+    const board = toGrid(PUZZLE);
+    board[0][2] = 5;
+    expect(solveSudoku(board)).toBe(false);
+  });
+});
+
+describe('countSolutions', () => {
+  it('counts a single solution for a proper puzzle', () => {
+    expect(countSolutions(toGrid(PUZZLE))).toBe(1);
+  });
+
+  it('stops at the limit on an underconstrained grid', () => {
+    const board = toGrid(PUZZLE);
+    board[0] = board[0].map(() => null);
+    board[1] = board[1].map(() => null);
+    expect(countSolutions(board)).toBe(2);
+  });
+});
+
+describe('countSolutionsWithin', () => {
+  it('gives up once the search budget runs out', () => {
+    expect(countSolutionsWithin(toGrid(PUZZLE), 3)).toBeNull();
+    expect(countSolutionsWithin(toGrid(PUZZLE), 50000)).toBe(1);
+  });
+
+  it('still reports a second solution found within the budget', () => {
+    expect(countSolutionsWithin(toGrid('0'.repeat(81)), 1000)).toBe(2);
+  });
+});
+
+describe('generateSudoku', () => {
+  const cases: [Difficulty, Variant, 4 | 6 | 9][] = [
+    [Difficulty.EASY, Variant.CLASSIC, 9],
+    [Difficulty.MEDIUM, Variant.CLASSIC, 9],
+    [Difficulty.EASY, Variant.DIAGONAL, 9],
+    [Difficulty.MEDIUM, Variant.CLASSIC, 6],
+    [Difficulty.EASY, Variant.CLASSIC, 4],
+  ];
+
+  it.each(cases)('generates a %s %s %ix%i puzzle with exactly one solution', (difficulty, variant, size) => {
+    const { puzzle, solution, layout } = generateSudoku(difficulty, 1234, variant, size);
+    expect(countSolutions(puzzle, 2, layout)).toBe(1);
+    // The givens agree with the solution, which itself breaks no rule of the layout
+    puzzle.forEach((row, r) => row.forEach((value, c) => { if (value !== null) expect(value).toBe(solution[r][c]); }));
+    getConstraints(layout).units.forEach(unit => {
+      expect(new Set(unit.cells.map(i => solution[Math.floor(i / size)][i % size])).size).toBe(size);
+    });
+  });
+
+  it('is deterministic for the same seed', () => {
+    expect(generateSudoku(Difficulty.EASY, 42).puzzle).toEqual(generateSudoku(Difficulty.EASY, 42).puzzle);
+  });
+});
+
+describe('isValid', () => {
+  it('checks rows, columns and boxes', () => {
+    const board = toGrid(PUZZLE);
+    expect(isValid(board, 0, 2, 5)).toBe(false); // Row
+    expect(isValid(board, 2, 0, 6)).toBe(false); // Column
+    expect(isValid(board, 1, 1, 9)).toBe(false); // Box
+    expect(isValid(board, 0, 2, 4)).toBe(true);
+  });
+});
@@ -1,101 +1,232 @@
 
-import { Difficulty } from '../types';
-
-export const isValid = (board: (number | null)[][], row: number, col: number, num: number): boolean => {
-  for (let x = 0; x < 9; x++) if (board[row][x] === num) return false;
-  for (let x = 0; x < 9; x++) if (board[x][col] === num) return false;
-  let startRow = row - (row % 3), startCol = col - (col % 3);
-  for (let i = 0; i < 3; i++) {
-    for (let j = 0; j < 3; j++) {
-      if (board[i + startRow][j + startCol] === num) return false;
-    }
+import { Difficulty, GeneratedPuzzle, GridSize, PuzzleRating, Variant, VariantLayout } from '../types';
+import { bitCount, digitMask, digitsOf } from './bitmask';
+import { bandDistance, fitsDifficulty, gradePuzzle } from './difficultyGrader';
+import { createRandom, randomSeed, shuffle } from './random';
+import { CLASSIC_LAYOUT, Constraints, createLayout, fitsCage, getConstraints, maxCageSum, minCageSum, VARIANT_SIZES, withCages } from './variants';
+
+export const isValid = (board: (number | null)[][], row: number, col: number, num: number, layout: VariantLayout = CLASSIC_LAYOUT): boolean => {
+  const { peers, cageOf, size } = getConstraints(layout);
+  const cell = row * size + col;
+  for (const p of peers[cell]) {
+    if (board[Math.floor(p / size)][p % size] === num) return false;
   }
-  return true;
+  const cage = cageOf[cell];
+  return !cage || fitsCage(board, cage, cell, num);
 };
 
-export const solveSudoku = (board: (number | null)[][]): boolean => {
-  for (let row = 0; row < 9; row++) {
-    for (let col = 0; col < 9; col++) {
-      if (board[row][col] === null) {
-        for (let num = 1; num <= 9; num++) {
-          if (isValid(board, row, col, num)) {
-            board[row][col] = num;
-            if (solveSudoku(board)) return true;
-            board[row][col] = null;
-          }
-        }
-        return false;
-      }
+// Flat board, the digits already used in each unit as bitmasks, and the rules it is
+// solved under. The search gives up once it runs out of nodes.
+interface SolverState {
+  cells: number[];
+  unitMasks: number[];
+  constraints: Constraints;
+  random?: () => number;
+  nodesLeft: number;
+}
+
+const candidateMask = (state: SolverState, i: number) => {
+  const { cells, constraints, unitMasks } = state;
+  const { size } = constraints;
+  let used = 0;
+  for (const u of constraints.cellUnitIndexes[i]) used |= unitMasks[u];
+  for (const p of constraints.extraPeers[i]) used |= 1 << cells[p];
+  let mask = digitMask(size) & ~used;
+
+  const cage = constraints.cageOf[i];
+  if (cage) {
+    let remaining = cage.sum, empty = -1;
+    for (const p of cage.cells) {
+      if (cells[p]) remaining -= cells[p];
+      else empty++;
+    }
+    // Whatever is left after d must still be reachable by the other empty cells
+    for (let d = 1; d <= size; d++) {
+      if (remaining - d < minCageSum(empty) || remaining - d > maxCageSum(empty, size)) mask &= ~(1 << d);
     }
   }
-  return true;
+  return mask;
 };
 
-const countSolutions = (board: (number | null)[][]): number => {
-  let count = 0;
-  const solve = (b: (number | null)[][]) => {
-    for (let row = 0; row < 9; row++) {
-      for (let col = 0; col < 9; col++) {
-        if (b[row][col] === null) {
-          for (let num = 1; num <= 9; num++) {
-            if (isValid(b, row, col, num)) {
-              b[row][col] = num;
-              solve(b);
-              b[row][col] = null;
-              if (count > 1) return;
-            }
-          }
-          return;
-        }
-      }
-    }
-    count++;
+const createSolverState = (board: (number | null)[][], layout: VariantLayout, random?: () => number, maxNodes = Infinity): SolverState | null => {
+  const constraints = getConstraints(layout);
+  const state: SolverState = {
+    cells: board.flat().map(v => v ?? 0),
+    unitMasks: Array(constraints.units.length).fill(0),
+    constraints,
+    random,
+    nodesLeft: maxNodes,
   };
-  solve(board);
-  return count;
+  for (let i = 0; i < state.cells.length; i++) {
+    const value = state.cells[i];
+    if (!value) continue;
+    if (constraints.peers[i].some(p => state.cells[p] === value)) return null;
+    constraints.cellUnitIndexes[i].forEach(u => { state.unitMasks[u] |= 1 << value; });
+  }
+  for (const cage of state.constraints.cages) {
+    const values = cage.cells.map(i => state.cells[i]);
+    const sum = values.reduce((a, b) => a + b, 0);
+    if (values.every(v => v) ? sum !== cage.sum : sum >= cage.sum) return null;
+  }
+  return state;
 };
 
-export const generateSudoku = (difficulty: Difficulty): { puzzle: (number | null)[][], solution: number[][] } => {
-  const board: (number | null)[][] = Array(9).fill(null).map(() => Array(9).fill(null));
-  
-  // Fill diagonal blocks for randomization
-  for (let i = 0; i < 9; i += 3) {
-    for (let j = 0; j < 3; j++) {
-      for (let k = 0; k < 3; k++) {
-        let num;
-        do { num = Math.floor(Math.random() * 9) + 1; }
-        while (!isValid(board, i + j, i + k, num));
-        board[i + j][i + k] = num;
-      }
-    }
+// Depth-first search that always branches on the cell with the fewest candidates
+// and stops as soon as `limit` solutions have been found. Digits are tried in
+// order unless the state carries a random source, which is used to fill new grids.
+const search = (state: SolverState, limit: number, onSolution?: (cells: number[]) => void): number => {
+  if (--state.nodesLeft < 0) return 0;
+  let best = -1, bestMask = 0, bestCount = state.constraints.size + 1;
+  for (let i = 0; i < state.cells.length && bestCount > 1; i++) {
+    if (state.cells[i]) continue;
+    const mask = candidateMask(state, i);
+    const count = bitCount(mask);
+    if (count < bestCount) { best = i; bestMask = mask; bestCount = count; }
+  }
+  if (best === -1) {
+    onSolution?.(state.cells);
+    return 1;
   }
 
-  solveSudoku(board);
-  const solution = board.map(row => [...row as number[]]);
-  const puzzle = board.map(row => [...row]);
-
-  let attempts = 0;
-  let cellsToRemove = 0;
-  switch (difficulty) {
-    case Difficulty.EASY: cellsToRemove = 35; break;
-    case Difficulty.MEDIUM: cellsToRemove = 45; break;
-    case Difficulty.HARD: cellsToRemove = 55; break;
-    case Difficulty.EXPERT: cellsToRemove = 60; break;
+  let found = 0;
+  const digits = digitsOf(bestMask);
+  const units = state.constraints.cellUnitIndexes[best];
+  for (const d of state.random ? shuffle(digits, state.random) : digits) {
+    if (found >= limit) break;
+    const bit = 1 << d;
+    state.cells[best] = d;
+    units.forEach(u => { state.unitMasks[u] |= bit; });
+    found += search(state, limit - found, onSolution);
+    units.forEach(u => { state.unitMasks[u] &= ~bit; });
+    state.cells[best] = 0;
   }
+  return found;
+};
 
-  while (attempts < cellsToRemove) {
-    let r = Math.floor(Math.random() * 9);
-    let c = Math.floor(Math.random() * 9);
-    if (puzzle[r][c] !== null) {
-      let temp = puzzle[r][c];
-      puzzle[r][c] = null;
-      if (countSolutions(JSON.parse(JSON.stringify(puzzle))) !== 1) {
-        puzzle[r][c] = temp;
-      } else {
-        attempts++;
+export const solveSudoku = (board: (number | null)[][], layout: VariantLayout = CLASSIC_LAYOUT): boolean => {
+  const state = createSolverState(board, layout);
+  if (!state) return false;
+  let solved = false;
+  search(state, 1, cells => {
+    cells.forEach((v, i) => { board[Math.floor(i / board.length)][i % board.length] = v; });
+    solved = true;
+  });
+  return solved;
+};
+
+// Counting stops at `limit`: uniqueness checks only need to know whether there is a second solution
+export const countSolutions = (board: (number | null)[][], limit: number = 2, layout: VariantLayout = CLASSIC_LAYOUT): number => {
+  const state = createSolverState(board, layout);
+  return state ? search(state, limit) : 0;
+};
+
+// The same count within a search budget, in nodes; null when the budget runs out before the count is settled
+export const countSolutionsWithin = (board: (number | null)[][], maxNodes: number, limit: number = 2, layout: VariantLayout = CLASSIC_LAYOUT): number | null => {
+  const state = createSolverState(board, layout, undefined, maxNodes);
+  if (!state) return 0;
+  const count = search(state, limit);
+  return count >= limit || state.nodesLeft >= 0 ? count : null;
+};
+
+// For a 9x9 grid; other sizes remove the same share of their cells
+const CELLS_TO_REMOVE: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 35,
+  [Difficulty.MEDIUM]: 45,
+  [Difficulty.HARD]: 55,
+  [Difficulty.EXPERT]: 60,
+};
+
+// Puzzles are regenerated until the grader places them in the requested band
+const MAX_GRADING_ATTEMPTS = 30;
+// Past this, the closest candidate is taken even if it needs guessing, so generation always ends
+const MAX_GENERATION_ATTEMPTS = 120;
+
+// Search budgets, in nodes. A bad random layout or a near-minimal 16x16 grid can make
+// the search crawl; a uniqueness check that runs out simply keeps the given.
+const FILL_NODE_BUDGET = 5000;
+const uniquenessNodeBudget = (size: GridSize) => (size === 16 ? 2000 : 50000);
+
+const hasUniqueSolution = (puzzle: (number | null)[][], layout: VariantLayout) => {
+  const state = createSolverState(puzzle, layout, undefined, uniquenessNodeBudget(layout.size));
+  return !!state && search(state, 2) === 1 && state.nodesLeft >= 0;
+};
+
+const createSolution = (layout: VariantLayout, random: () => number): number[][] | null => {
+  const { size } = layout;
+  const board: (number | null)[][] = Array(size).fill(null).map(() => Array(size).fill(null));
+
+  if (layout === CLASSIC_LAYOUT) {
+    // Fill diagonal blocks for randomization. Classic grids keep this fill so puzzle
+    // codes shared before variants existed still open the same puzzle.
+    for (let i = 0; i < 9; i += 3) {
+      for (let j = 0; j < 3; j++) {
+        for (let k = 0; k < 3; k++) {
+          let num;
+          do { num = Math.floor(random() * 9) + 1; }
+          while (!isValid(board, i + j, i + k, num));
+          board[i + j][i + k] = num;
+        }
       }
     }
+    solveSudoku(board);
+    return board as number[][];
+  }
+
+  const state = createSolverState(board, layout, random, FILL_NODE_BUDGET)!;
+  let solution: number[][] | null = null;
+  search(state, 1, cells => {
+    solution = Array.from({ length: size }, (_, r) => cells.slice(r * size, r * size + size));
+  });
+  return solution;
+};
+
+const createPuzzle = (variant: Variant, size: GridSize, cellsToRemove: number, random: () => number): Pick<GeneratedPuzzle, 'puzzle' | 'solution' | 'layout'> => {
+  let layout: VariantLayout, solution: number[][] | null;
+  // Some random Jigsaw layouts have no solution at all; those are simply redrawn
+  do {
+    layout = createLayout(variant, size, random);
+    solution = createSolution(layout, random);
+  } while (!solution);
+  if (variant === Variant.KILLER) layout = withCages(layout, solution, random);
+  const puzzle: (number | null)[][] = solution.map(row => [...row]);
+
+  // Each cell is tried once, so a minimal puzzle stops the loop instead of spinning forever
+  const order = shuffle(Array.from({ length: size * size }, (_, i) => i), random);
+  let removed = 0;
+  for (const i of order) {
+    if (removed >= cellsToRemove) break;
+    const r = Math.floor(i / size), c = i % size;
+    const temp = puzzle[r][c];
+    puzzle[r][c] = null;
+    if (!hasUniqueSolution(puzzle, layout)) {
+      puzzle[r][c] = temp;
+    } else {
+      removed++;
+    }
   }
 
-  return { puzzle, solution };
+  return { puzzle, solution, layout };
+};
+
+// The same (difficulty, seed, variant, size) always yields the same puzzle and solution
+export const generateSudoku = (difficulty: Difficulty, seed: number = randomSeed(), variant: Variant = Variant.CLASSIC, size: GridSize = 9): GeneratedPuzzle => {
+  if (!VARIANT_SIZES[variant].includes(size)) throw new Error(`A variante não está disponível em ${size}x${size}.`);
+  const random = createRandom(seed);
+  const cellsToRemove = Math.round((CELLS_TO_REMOVE[difficulty] * size * size) / 81);
+  let best: GeneratedPuzzle | null = null;
+  let closest: GeneratedPuzzle | null = null;
+  const closer = (rating: PuzzleRating, than: GeneratedPuzzle | null) => !than || bandDistance(rating, difficulty) < bandDistance(than.rating, difficulty);
+
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const candidate = createPuzzle(variant, size, cellsToRemove, random);
+    const rating = gradePuzzle(candidate.puzzle, candidate.layout);
+    if (fitsDifficulty(rating, difficulty)) return { ...candidate, rating, seed };
+
+    // Guessing is only acceptable on Expert, unless nothing else turns up
+    const acceptable = !rating.requiresGuessing || difficulty === Difficulty.EXPERT;
+    if (acceptable && closer(rating, best)) best = { ...candidate, rating, seed };
+    if (closer(rating, closest)) closest = { ...candidate, rating, seed };
+    if (attempt >= MAX_GRADING_ATTEMPTS && best) return best;
+  }
+  return closest!;
 };
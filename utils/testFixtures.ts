@@ -0,0 +1,23 @@
+import { Difficulty, GameMode } from '../types';
+import { createGame, EngineOptions } from './gameEngine';
+import { CLASSIC_LAYOUT } from './variants';
+
+// Shared by the engine, scoring and review tests: one classic 9x9 puzzle and its solution
+
+export const toGrid = (line: string) =>
+  Array.from({ length: 9 }, (_, r) => [...line.slice(r * 9, r * 9 + 9)].map(ch => (ch === '0' ? null : Number(ch))));
+
+export const PUZZLE = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+export const SOLUTION = '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+export const OPTIONS: EngineOptions = { autoCheckErrors: true, keepCandidatesUpdated: false };
+
+// `puzzle` is a row-major line of digits with 0 for the open cells; the solution is always SOLUTION
+export const newGame = (puzzle = PUZZLE, mode = GameMode.NORMAL) => createGame({
+  puzzle: toGrid(puzzle),
+  solution: toGrid(SOLUTION) as number[][],
+  difficulty: Difficulty.EASY,
+  layout: CLASSIC_LAYOUT,
+  rating: { score: 0, hardestTechnique: null, requiresGuessing: false },
+  seed: null,
+  mode
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { Palette } from '../types';
+import { applyTheme, PALETTES, themeColors } from './themes';
+
+describe('themes', () => {
+  it('falls back to Neon for unknown or damaged themes', () => {
+    const custom = { id: 'mine', name: 'Mine', colors: { ...PALETTES[Palette.NEON], accent: '#123456' } };
+    expect(themeColors({ theme: 'mine', customThemes: [custom] }).accent).toBe('#123456');
+    expect(themeColors({ theme: 'gone', customThemes: [custom] })).toBe(PALETTES[Palette.NEON]);
+    const damaged = { ...custom, colors: { ...custom.colors, error: 'red' } };
+    expect(themeColors({ theme: 'mine', customThemes: [damaged] })).toBe(PALETTES[Palette.NEON]);
+  });
+
+  it('writes every shade as rgb channels', () => {
+    const vars = new Map<string, string>();
+    const root = { style: { setProperty: (name: string, value: string) => vars.set(name, value) } } as unknown as HTMLElement;
+    applyTheme(PALETTES[Palette.NEON], root);
+    expect(vars.get('--accent-500')).toBe('6 182 212');
+    expect(vars.get('--error-100')).toBe('253 227 227');
+    expect(vars.get('--success-900')).toBe('14 79 38');
+    expect(vars.get('--expert')).toBe('168 85 247');
+  });
+});
@@ -0,0 +1,63 @@
+import { CustomTheme, Palette, Settings, ThemeColors } from '../types';
+
+export const PALETTES: Record<Palette, ThemeColors> = {
+  [Palette.NEON]: { accent: '#06b6d4', entry: '#10b981', error: '#ef4444', success: '#22c55e', easy: '#22c55e', medium: '#eab308', hard: '#ef4444', expert: '#a855f7' },
+  [Palette.MAGENTA]: { accent: '#d946ef', entry: '#22d3ee', error: '#f43f5e', success: '#22c55e', easy: '#22c55e', medium: '#eab308', hard: '#f43f5e', expert: '#8b5cf6' },
+  [Palette.LIME]: { accent: '#84cc16', entry: '#38bdf8', error: '#f43f5e', success: '#10b981', easy: '#10b981', medium: '#facc15', hard: '#f43f5e', expert: '#c084fc' },
+  [Palette.VIOLET]: { accent: '#8b5cf6', entry: '#2dd4bf', error: '#f43f5e', success: '#22c55e', easy: '#22c55e', medium: '#f59e0b', hard: '#f43f5e', expert: '#ec4899' },
+  [Palette.HIGH_CONTRAST]: { accent: '#0050e6', entry: '#0097a7', error: '#e00000', success: '#00a64f', easy: '#00a64f', medium: '#c77700', hard: '#e00000', expert: '#9c27b0' },
+  // Okabe-Ito colors: entries in blue against errors in orange, which both kinds of red-green
+  // color blindness tell apart; protanopes see red as dark, so their orange leans yellow
+  [Palette.DEUTERANOPIA]: { accent: '#0072b2', entry: '#56b4e9', error: '#d55e00', success: '#009e73', easy: '#56b4e9', medium: '#f0e442', hard: '#d55e00', expert: '#cc79a7' },
+  [Palette.PROTANOPIA]: { accent: '#3b6fd4', entry: '#56b4e9', error: '#e69f00', success: '#009e73', easy: '#56b4e9', medium: '#f0e442', hard: '#e69f00', expert: '#cc79a7' },
+};
+
+// Colors with a full shade scale, and the ones a custom theme edits; the difficulty colors
+// come from the theme it started from
+export const EDITABLE_COLORS = ['accent', 'entry', 'error', 'success'] as const;
+
+// How far each shade is mixed towards white (positive) or black (negative); 500 is the base color
+const SHADES: Record<number, number> = { 100: 0.85, 300: 0.45, 400: 0.2, 500: 0, 600: -0.2, 900: -0.6 };
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isThemeColors = (value: unknown): value is ThemeColors => {
+  if (typeof value !== 'object' || value === null) return false;
+  const colors = value as Record<string, unknown>;
+  return Object.keys(PALETTES[Palette.NEON]).every(key => {
+    const color = colors[key];
+    return typeof color === 'string' && HEX_COLOR.test(color);
+  });
+};
+
+export const isCustomTheme = (value: unknown): value is CustomTheme => {
+  if (typeof value !== 'object' || value === null) return false;
+  const theme = value as Record<string, unknown>;
+  return typeof theme.id === 'string' && typeof theme.name === 'string' && isThemeColors(theme.colors);
+};
+
+export const isPalette = (value: string): value is Palette => Object.values(Palette).includes(value as Palette);
+
+// The theme picked in the settings; an unknown or damaged one falls back to Neon
+export const themeColors = ({ theme, customThemes }: Pick<Settings, 'theme' | 'customThemes'>): ThemeColors => {
+  if (isPalette(theme)) return PALETTES[theme];
+  const custom = customThemes.find(t => t.id === theme);
+  return custom && isThemeColors(custom.colors) ? custom.colors : PALETTES[Palette.NEON];
+};
+
+// "r g b" channels, the form Tailwind's <alpha-value> colors read from a CSS variable
+const channels = (hex: string, mix = 0) => {
+  const target = mix > 0 ? 255 : 0;
+  return [1, 3, 5]
+    .map(k => parseInt(hex.slice(k, k + 2), 16))
+    .map(v => Math.round(v + (target - v) * Math.abs(mix)))
+    .join(' ');
+};
+
+// Fills the CSS variables behind the accent-, entry-, error-, success- and difficulty classes
+export const applyTheme = (colors: ThemeColors, root: HTMLElement = document.documentElement) => {
+  EDITABLE_COLORS.forEach(name => Object.entries(SHADES).forEach(([shade, mix]) => {
+    root.style.setProperty(`--${name}-${shade}`, channels(colors[name], mix));
+  }));
+  (['easy', 'medium', 'hard', 'expert'] as const).forEach(name => root.style.setProperty(`--${name}`, channels(colors[name])));
+};
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { Difficulty, RaceState } from '../types';
+import { connectRace, defaultRaceUrl, RaceConnection, RaceConnectionStatus, RaceReport } from './raceClient';
+
+const RACE_KEY = 'sudoku-race';
+
+// Last relay joined, so the form comes back filled in and a reload can resume the same player
+export interface RaceJoin {
+  url: string;
+  room: string;
+  name: string;
+  playerId: string | null;
+}
+
+export const loadRaceJoin = (): RaceJoin => {
+  try {
+    return { url: defaultRaceUrl(), room: '', name: '', playerId: null, ...JSON.parse(localStorage.getItem(RACE_KEY) ?? '{}') };
+  } catch (err) {
+    return { url: defaultRaceUrl(), room: '', name: '', playerId: null };
+  }
+};
+
+const saveRaceJoin = (join: RaceJoin) => localStorage.setItem(RACE_KEY, JSON.stringify(join));
+
+export const useRace = () => {
+  const connectionRef = useRef<RaceConnection | null>(null);
+  const [status, setStatus] = useState<RaceConnectionStatus | null>(null);
+  const [race, setRace] = useState<RaceState | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+
+  useEffect(() => () => connectionRef.current?.leave(), []);
+
+  // Throws a MessageError for an address that is not a WebSocket URL
+  const join = (url: string, room: string, name: string) => {
+    const previous = loadRaceJoin();
+    const resume = previous.url === url && previous.room === room ? previous.playerId : null;
+    connectionRef.current?.leave();
+    connectionRef.current = connectRace(url, room, name, {
+      onStatus: setStatus,
+      onState: (next, id) => {
+        setRace(next);
+        setPlayerId(id);
+        saveRaceJoin({ url, room, name, playerId: id });
+      },
+    }, resume);
+    saveRaceJoin({ url, room, name, playerId: resume });
+  };
+
+  const leave = () => {
+    connectionRef.current?.leave();
+    connectionRef.current = null;
+    saveRaceJoin({ ...loadRaceJoin(), playerId: null });
+    setStatus(null);
+    setRace(null);
+    setPlayerId(null);
+  };
+
+  const start = (difficulty: Difficulty) => connectionRef.current?.start(difficulty);
+
+  const report = (progress: RaceReport) => connectionRef.current?.report(progress);
+
+  return { status, race, playerId, join, leave, start, report };
+};
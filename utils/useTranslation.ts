@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { createTranslator, DEFAULT_LOCALE, Translator } from './i18n';
+
+// Kept apart from i18n.ts so the modules that throw MessageError stay free of React
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export const useTranslation = () => useContext(I18nContext);
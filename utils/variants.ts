@@ -0,0 +1,214 @@
+import { Cage, GridSize, HintUnit, Variant, VariantLayout } from '../types';
+import { shuffle } from './random';
+
+export interface ConstraintUnit extends HintUnit {
+  cells: number[];
+}
+
+/**
+ * Every rule of a layout, flattened into the shapes the solver and the hint engine
+ * work with: units that must hold each digit exactly once, the cells that may never
+ * share a digit with a given cell, and the Killer cages.
+ */
+export interface Constraints {
+  layout: VariantLayout;
+  size: GridSize;
+  cellCount: number;
+  units: ConstraintUnit[];
+  cellUnits: ConstraintUnit[][];
+  cellUnitIndexes: number[][]; // Positions in `units`, for the solver's per-unit bitmasks
+  peers: number[][];
+  extraPeers: number[][]; // Peers that share no unit with the cell: anti-chess moves and cage mates
+  peerSets: Set<number>[];
+  cages: Cage[];
+  cageOf: (Cage | null)[];
+}
+
+export const GRID_SIZES: GridSize[] = [4, 6, 9, 16];
+
+// Rows x columns of a box for each grid size
+export const BOX_SHAPES: Record<GridSize, [number, number]> = { 4: [2, 2], 6: [2, 3], 9: [3, 3], 16: [4, 4] };
+
+// Sizes each variant can be generated in. No 4x4 grid satisfies Anti-King, and random
+// 16x16 Jigsaw layouts are too hard to fill for the backtracking solver.
+export const VARIANT_SIZES: Record<Variant, GridSize[]> = {
+  [Variant.CLASSIC]: GRID_SIZES,
+  [Variant.DIAGONAL]: GRID_SIZES,
+  [Variant.JIGSAW]: [4, 6, 9],
+  [Variant.KILLER]: GRID_SIZES,
+  [Variant.ANTI_KNIGHT]: GRID_SIZES,
+  [Variant.ANTI_KING]: [6, 9, 16],
+};
+
+const KNIGHT_MOVES = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_MOVES = [[-1, -1], [-1, 1], [1, -1], [1, 1]]; // Orthogonal neighbours already share a row or column
+
+const boxRegions = (size: GridSize) => {
+  const [boxRows, boxCols] = BOX_SHAPES[size];
+  return Array.from({ length: size * size }, (_, i) =>
+    Math.floor(Math.floor(i / size) / boxRows) * (size / boxCols) + Math.floor((i % size) / boxCols));
+};
+
+export const CLASSIC_LAYOUT: VariantLayout = { variant: Variant.CLASSIC, size: 9, regions: boxRegions(9), cages: [] };
+
+const neighbours = (i: number, size: number) => {
+  const r = Math.floor(i / size), c = i % size;
+  return [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]]
+    .filter(([nr, nc]) => nr >= 0 && nr < size && nc >= 0 && nc < size)
+    .map(([nr, nc]) => nr * size + nc);
+};
+
+const buildConstraints = (layout: VariantLayout): Constraints => {
+  const { size } = layout;
+  const cellCount = size * size;
+  const units: ConstraintUnit[] = [];
+  for (let i = 0; i < size; i++) {
+    units.push({ kind: 'row', index: i, cells: Array.from({ length: size }, (_, j) => i * size + j) });
+    units.push({ kind: 'col', index: i, cells: Array.from({ length: size }, (_, j) => j * size + i) });
+    units.push({ kind: 'box', index: i, cells: layout.regions.flatMap((region, cell) => (region === i ? [cell] : [])) });
+  }
+  if (layout.variant === Variant.DIAGONAL) {
+    units.push({ kind: 'diagonal', index: 0, cells: Array.from({ length: size }, (_, j) => j * size + j) });
+    units.push({ kind: 'diagonal', index: 1, cells: Array.from({ length: size }, (_, j) => j * size + size - 1 - j) });
+  }
+
+  const cellUnits = Array.from({ length: cellCount }, (_, i) => units.filter(u => u.cells.includes(i)));
+  const cageOf: (Cage | null)[] = Array(cellCount).fill(null);
+  layout.cages.forEach(cage => cage.cells.forEach(i => { cageOf[i] = cage; }));
+
+  const moves = layout.variant === Variant.ANTI_KNIGHT ? KNIGHT_MOVES : layout.variant === Variant.ANTI_KING ? KING_MOVES : [];
+  const peerSets = cellUnits.map((cellUnitList, i) => {
+    const peers = new Set<number>();
+    cellUnitList.forEach(u => u.cells.forEach(p => peers.add(p)));
+    cageOf[i]?.cells.forEach(p => peers.add(p));
+    const r = Math.floor(i / size), c = i % size;
+    moves.forEach(([dr, dc]) => {
+      if (r + dr >= 0 && r + dr < size && c + dc >= 0 && c + dc < size) peers.add((r + dr) * size + c + dc);
+    });
+    peers.delete(i);
+    return peers;
+  });
+
+  const cellUnitIndexes = cellUnits.map(list => list.map(u => units.indexOf(u)));
+  const extraPeers = peerSets.map((peers, i) => [...peers].filter(p => !cellUnits[i].some(u => u.cells.includes(p))));
+
+  return {
+    layout, size, cellCount, units, cellUnits, cellUnitIndexes,
+    peers: peerSets.map(p => [...p]), extraPeers, peerSets, cages: layout.cages, cageOf
+  };
+};
+
+// Layouts are immutable once created, so their constraints are built only once
+const cache = new WeakMap<VariantLayout, Constraints>();
+
+export const getConstraints = (layout: VariantLayout = CLASSIC_LAYOUT): Constraints => {
+  let constraints = cache.get(layout);
+  if (!constraints) {
+    constraints = buildConstraints(layout);
+    cache.set(layout, constraints);
+  }
+  return constraints;
+};
+
+const isConnected = (regions: number[], region: number, size: number) => {
+  const cells = regions.flatMap((id, i) => (id === region ? [i] : []));
+  const seen = new Set([cells[0]]);
+  const stack = [cells[0]];
+  while (stack.length > 0) {
+    neighbours(stack.pop()!, size).forEach(n => {
+      if (regions[n] === region && !seen.has(n)) {
+        seen.add(n);
+        stack.push(n);
+      }
+    });
+  }
+  return seen.size === cells.length;
+};
+
+// Irregular regions are grown from the boxes by swapping border cells between
+// neighbouring regions, which keeps every region connected and at full size.
+const createJigsawRegions = (size: GridSize, random: () => number): number[] => {
+  const cellCount = size * size;
+  const regions = boxRegions(size);
+  for (let swaps = 0; swaps < cellCount * 4; swaps++) {
+    const a = Math.floor(random() * cellCount);
+    const others = neighbours(a, size).filter(n => regions[n] !== regions[a]);
+    if (others.length === 0) continue;
+    const b = others[Math.floor(random() * others.length)];
+    const regionA = regions[a], regionB = regions[b];
+    // b joins A, then A hands one of its cells bordering B back
+    regions[b] = regionA;
+    const givers = regions.flatMap((id, i) => (id === regionA && i !== b && neighbours(i, size).some(n => regions[n] === regionB) ? [i] : []));
+    if (givers.length === 0) {
+      regions[b] = regionB;
+      continue;
+    }
+    const d = givers[Math.floor(random() * givers.length)];
+    regions[d] = regionB;
+    if (!isConnected(regions, regionA, size) || !isConnected(regions, regionB, size)) {
+      regions[b] = regionB;
+      regions[d] = regionA;
+    }
+  }
+  return regions;
+};
+
+/**
+ * Layout for a new puzzle. Jigsaw regions are random; Killer cages depend on the
+ * solution and are added afterwards with `withCages`.
+ */
+export const createLayout = (variant: Variant, size: GridSize, random: () => number): VariantLayout => {
+  if (variant === Variant.CLASSIC && size === 9) return CLASSIC_LAYOUT;
+  return {
+    variant,
+    size,
+    regions: variant === Variant.JIGSAW ? createJigsawRegions(size, random) : boxRegions(size),
+    cages: []
+  };
+};
+
+// Splits the solved grid into connected cages of 2 to 4 cells without repeated digits
+export const withCages = (layout: VariantLayout, solution: number[][], random: () => number): VariantLayout => {
+  const { size } = layout;
+  const values = solution.flat();
+  const cageId: number[] = Array(values.length).fill(-1);
+  const cages: Cage[] = [];
+
+  for (const start of shuffle(Array.from({ length: values.length }, (_, i) => i), random)) {
+    if (cageId[start] !== -1) continue;
+    const cageSize = 2 + Math.floor(random() * 3);
+    const cells = [start];
+    cageId[start] = cages.length;
+    while (cells.length < cageSize) {
+      const used = new Set(cells.map(i => values[i]));
+      const frontier = [...new Set(cells.flatMap(i => neighbours(i, size)))].filter(n => cageId[n] === -1 && !used.has(values[n]));
+      if (frontier.length === 0) break;
+      const next = frontier[Math.floor(random() * frontier.length)];
+      cageId[next] = cages.length;
+      cells.push(next);
+    }
+    cells.sort((a, b) => a - b);
+    cages.push({ cells, sum: cells.reduce((s, i) => s + values[i], 0) });
+  }
+
+  return { ...layout, cages };
+};
+
+// Smallest and largest sums of `count` distinct digits from 1 to `size`
+export const minCageSum = (count: number) => (count * (count + 1)) / 2;
+export const maxCageSum = (count: number, size: number) => (count * (2 * size + 1 - count)) / 2;
+
+// Whether `num` in `cell` still fits its cage, given the digits already placed there
+export const fitsCage = (board: (number | null)[][], cage: Cage, cell: number, num: number) => {
+  const size = board.length;
+  let sum = num, empty = 0;
+  for (const i of cage.cells) {
+    if (i === cell) continue;
+    const value = board[Math.floor(i / size)][i % size];
+    if (value === num) return false;
+    if (value) sum += value;
+    else empty++;
+  }
+  const remaining = cage.sum - sum;
+  return remaining >= minCageSum(empty) && remaining <= maxCageSum(empty, size);
+};